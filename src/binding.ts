@@ -0,0 +1,392 @@
+/**
+ * Features related to keeping DOM elements in sync with states.
+ * @module Binding
+ */
+
+import { getElement, hide, show, write, writeHTML } from './dom';
+import { getValue, isFieldElement, setValue } from './interaction';
+import type { State } from './state';
+
+/**
+ * Represents a function that converts a state value into a string to display.
+ */
+export type BindingFormatter<T> = (value: T | undefined) => string;
+
+/**
+ * Represents a function that converts a field value into a state value.
+ */
+export type BindingParser<T> = (text: string) => T;
+
+/**
+ * Represents a function that checks if a state value should enable a binding (e.g. show an element or add a class).
+ */
+export type BindingPredicate<T> = (value: T | undefined) => boolean;
+
+/**
+ * Options for binding a state to the visibility of an element.
+ */
+export interface VisibilityBindingOptions<T> {
+  /**
+   * Checks if the element should be visible. By default, the element is visible if the value is truthy.
+   */
+  when?: BindingPredicate<T>;
+  /**
+   * If enabled, the element still takes space in the page when hidden.
+   * @see {@link hide|hide()}
+   */
+  useSpace?: boolean;
+}
+
+/**
+ * Options for binding a state to the value of a field.
+ */
+export interface ValueBindingOptions<T> {
+  /**
+   * If enabled, the state is updated when the user changes the field value. Enabled by default.
+   */
+  twoWay?: boolean;
+  /**
+   * The event that updates the state: "input" updates it as the user types, "change" updates it when the field loses focus.
+   * Defaults to "input".
+   */
+  event?: 'input' | 'change';
+  /**
+   * Converts the state value into the field value. By default, the value is converted into a string, and null or undefined values
+   * are converted into an empty string.
+   */
+  format?: BindingFormatter<T>;
+  /**
+   * Converts the field value into the state value. By default, the field value is converted into a number if the state value is a
+   * number, or kept as a string otherwise. If it returns `NaN` (e.g. the field is empty or the user is typing), the state is not updated.
+   */
+  parse?: BindingParser<T>;
+}
+
+/**
+ * Gets the first element in the page that match the given CSS selectors, and writes the value of a given state as its text each time
+ * it changes.
+ * @param selectors The CSS selectors to match.
+ * @param state The state to display.
+ * @param format Converts the state value into the text to display.
+ * @returns Returns a function that stops updating the element when called, or null if the element doesn't exist.
+ * @see {@link write|write()}
+ * @example
+ * // HTML
+ * <p>Score: <span id="score"></span></p>
+ * // JS
+ * const score = facile.state(0);
+ * facile.bindText('#score', score, (score) => score.toLocaleString());
+ */
+export function bindText<T>(selectors: string, state: State<T>, format?: BindingFormatter<T>): (() => void) | null;
+
+/**
+ * Writes the value of a given state as the text of a given element each time it changes.
+ * @param element The element to update.
+ * @param state The state to display.
+ * @param format Converts the state value into the text to display.
+ * @returns Returns a function that stops updating the element when called.
+ * @see {@link write|write()}
+ */
+export function bindText<T>(element: HTMLElement, state: State<T>, format?: BindingFormatter<T>): () => void;
+
+export function bindText<T>(selectors: string | HTMLElement, state: State<T>, format: BindingFormatter<T> = defaultFormat): (() => void) | null {
+  const element = resolveElement(selectors);
+  if (!element) {
+    return null;
+  }
+
+  return state.onChange((value) => {
+    write(element, format(value));
+  }, { immediate: true });
+}
+
+/**
+ * Gets the first element in the page that match the given CSS selectors, and writes the value of a given state as its HTML content
+ * each time it changes.
+ * @param selectors The CSS selectors to match.
+ * @param state The state to display.
+ * @param format Converts the state value into the HTML code to display.
+ * @returns Returns a function that stops updating the element when called, or null if the element doesn't exist.
+ * @see {@link writeHTML|writeHTML()}
+ * @example
+ * const inventory = facile.state(['sword', 'potion']);
+ * facile.bindHTML('#inventory', inventory, (items) => items.map(item => `<li>${item}</li>`).join(''));
+ */
+export function bindHTML<T>(selectors: string, state: State<T>, format?: BindingFormatter<T>): (() => void) | null;
+
+/**
+ * Writes the value of a given state as the HTML content of a given element each time it changes.
+ * @param element The element to update.
+ * @param state The state to display.
+ * @param format Converts the state value into the HTML code to display.
+ * @returns Returns a function that stops updating the element when called.
+ * @see {@link writeHTML|writeHTML()}
+ */
+export function bindHTML<T>(element: HTMLElement, state: State<T>, format?: BindingFormatter<T>): () => void;
+
+export function bindHTML<T>(selectors: string | HTMLElement, state: State<T>, format: BindingFormatter<T> = defaultFormat): (() => void) | null {
+  const element = resolveElement(selectors);
+  if (!element) {
+    return null;
+  }
+
+  return state.onChange((value) => {
+    writeHTML(element, format(value));
+  }, { immediate: true });
+}
+
+/**
+ * Gets the first element in the page that match the given CSS selectors, and sets the value of a given state as one of its attributes
+ * each time it changes. The attribute is removed if the value is null, undefined or false.
+ * @param selectors The CSS selectors to match.
+ * @param name The name of the attribute to set.
+ * @param state The state to use as attribute value.
+ * @param format Converts the state value into the attribute value.
+ * @returns Returns a function that stops updating the element when called, or null if the element doesn't exist.
+ * @see {@link https://developer.mozilla.org/docs/Web/API/Element/setAttribute|MDN - Element.setAttribute()}
+ * @example
+ * const avatar = facile.state('knight.png');
+ * facile.bindAttribute('#avatar', 'src', avatar, (file) => `images/${file}`);
+ */
+export function bindAttribute<T>(selectors: string, name: string, state: State<T>, format?: BindingFormatter<T>): (() => void) | null;
+
+/**
+ * Sets the value of a given state as an attribute of a given element each time it changes. The attribute is removed if the value is
+ * null, undefined or false.
+ * @param element The element to update.
+ * @param name The name of the attribute to set.
+ * @param state The state to use as attribute value.
+ * @param format Converts the state value into the attribute value.
+ * @returns Returns a function that stops updating the element when called.
+ * @see {@link https://developer.mozilla.org/docs/Web/API/Element/setAttribute|MDN - Element.setAttribute()}
+ */
+export function bindAttribute<T>(element: HTMLElement, name: string, state: State<T>, format?: BindingFormatter<T>): () => void;
+
+export function bindAttribute<T>(selectors: string | HTMLElement, name: string, state: State<T>, format?: BindingFormatter<T>): (() => void) | null {
+  const element = resolveElement(selectors);
+  if (!element) {
+    return null;
+  }
+
+  return state.onChange((value) => {
+    if (value === undefined || value === null || value === false) {
+      element.removeAttribute(name);
+    }
+    else {
+      element.setAttribute(name, format ? format(value) : value === true ? '' : String(value));
+    }
+  }, { immediate: true });
+}
+
+/**
+ * Gets the first element in the page that match the given CSS selectors, and adds or removes a class on it depending on the value of a
+ * given state.
+ * @param selectors The CSS selectors to match.
+ * @param className The class to add or remove.
+ * @param state The state that defines if the class is added.
+ * @param when Checks if the class should be added. By default, the class is added if the value is truthy.
+ * @returns Returns a function that stops updating the element when called, or null if the element doesn't exist.
+ * @see {@link https://developer.mozilla.org/docs/Web/API/Element/classList|MDN - Element.classList}
+ * @example
+ * const hp = facile.state(100);
+ * facile.bindClass('#hp-bar', 'danger', hp, (hp) => hp < 20);
+ */
+export function bindClass<T>(selectors: string, className: string, state: State<T>, when?: BindingPredicate<T>): (() => void) | null;
+
+/**
+ * Adds or removes a class on a given element depending on the value of a given state.
+ * @param element The element to update.
+ * @param className The class to add or remove.
+ * @param state The state that defines if the class is added.
+ * @param when Checks if the class should be added. By default, the class is added if the value is truthy.
+ * @returns Returns a function that stops updating the element when called.
+ * @see {@link https://developer.mozilla.org/docs/Web/API/Element/classList|MDN - Element.classList}
+ */
+export function bindClass<T>(element: HTMLElement, className: string, state: State<T>, when?: BindingPredicate<T>): () => void;
+
+export function bindClass<T>(selectors: string | HTMLElement, className: string, state: State<T>, when: BindingPredicate<T> = Boolean): (() => void) | null {
+  const element = resolveElement(selectors);
+  if (!element) {
+    return null;
+  }
+
+  return state.onChange((value) => {
+    element.classList.toggle(className, when(value));
+  }, { immediate: true });
+}
+
+/**
+ * Gets the first element in the page that match the given CSS selectors, and shows or hides it depending on the value of a given
+ * state.
+ * @param selectors The CSS selectors to match.
+ * @param state The state that defines if the element is visible.
+ * @param options Options for showing or hiding the element.
+ * @returns Returns a function that stops updating the element when called, or null if the element doesn't exist.
+ * @see {@link show|show()}
+ * @see {@link hide|hide()}
+ * @example
+ * const isGameOver = facile.state(false);
+ * facile.bindVisibility('#game-over', isGameOver);
+ */
+export function bindVisibility<T>(selectors: string, state: State<T>, options?: VisibilityBindingOptions<T>): (() => void) | null;
+
+/**
+ * Shows or hides a given element depending on the value of a given state.
+ * @param element The element to update.
+ * @param state The state that defines if the element is visible.
+ * @param options Options for showing or hiding the element.
+ * @returns Returns a function that stops updating the element when called.
+ * @see {@link show|show()}
+ * @see {@link hide|hide()}
+ */
+export function bindVisibility<T>(element: HTMLElement, state: State<T>, options?: VisibilityBindingOptions<T>): () => void;
+
+export function bindVisibility<T>(selectors: string | HTMLElement, state: State<T>, options?: VisibilityBindingOptions<T>): (() => void) | null {
+  const element = resolveElement(selectors);
+  if (!element) {
+    return null;
+  }
+
+  const when = options?.when ?? Boolean;
+  return state.onChange((value) => {
+    if (when(value)) {
+      show(element);
+    }
+    else {
+      hide(element, options?.useSpace);
+    }
+  }, { immediate: true });
+}
+
+/**
+ * Gets the first field element in the page that match the given CSS selectors, and keeps its value in sync with a given state: the
+ * field is updated when the state changes, and the state is updated when the user changes the field value.
+ * @param selectors The CSS selectors to match.
+ * @param state The state to bind.
+ * @param options Options for binding the state.
+ * @returns Returns a function that stops the binding when called, or null if the element doesn't exist or is not a valid field element.
+ * @see {@link getValue|getValue()}
+ * @see {@link setValue|setValue()}
+ * @example
+ * // HTML
+ * <input id="name" type="text"/>
+ * <input id="volume" type="range" min="0" max="100"/>
+ * // JS
+ * const playerName = facile.state('MagicPoney');
+ * const volume = facile.state(50);
+ * facile.bindValue('#name', playerName);
+ * // The field value is converted into a number, since the state value is a number
+ * facile.bindValue('#volume', volume);
+ * @example <caption>Bind checkboxes and radio buttons</caption>
+ * // HTML
+ * <input id="music" type="checkbox"/>
+ * <input name="difficulty" type="radio" value="easy"/>
+ * <input name="difficulty" type="radio" value="hard"/>
+ * // JS
+ * // A checkbox is bound to a boolean state, through its checked state
+ * facile.bindValue('#music', facile.state(true));
+ * // Each radio button is checked when the state is equal to its value
+ * const difficulty = facile.state('easy');
+ * facile.bindValue('[name="difficulty"][value="easy"]', difficulty);
+ * facile.bindValue('[name="difficulty"][value="hard"]', difficulty);
+ */
+export function bindValue<T>(selectors: string, state: State<T>, options?: ValueBindingOptions<T>): (() => void) | null;
+
+/**
+ * Keeps the value of a given field element in sync with a given state: the field is updated when the state changes, and the state is
+ * updated when the user changes the field value.
+ * @param element The field element to bind.
+ * @param state The state to bind.
+ * @param options Options for binding the state.
+ * @returns Returns a function that stops the binding when called, or null if the element is not a valid field element.
+ * @see {@link getValue|getValue()}
+ * @see {@link setValue|setValue()}
+ */
+export function bindValue<T, E extends HTMLElement>(element: E, state: State<T>, options?: ValueBindingOptions<T>): (() => void) | null;
+
+export function bindValue<T>(selectors: string | HTMLElement, state: State<T>, options?: ValueBindingOptions<T>): (() => void) | null {
+  const element = resolveElement(selectors);
+  if (!element) {
+    return null;
+  }
+
+  if (!isFieldElement(element)) {
+    console.warn(`Failed to bind field value: The element ${selectors} is not a valid field element.`);
+    return null;
+  }
+
+  const format = options?.format ?? defaultFormat;
+  const checkType = element instanceof HTMLInputElement && (element.type === 'checkbox' || element.type === 'radio') ? element.type : null;
+  const stopWatching = state.onChange((value) => {
+    if (checkType === 'checkbox') {
+      (element as HTMLInputElement).checked = !!value;
+      return;
+    }
+    const text = format(value);
+    if (checkType === 'radio') {
+      (element as HTMLInputElement).checked = element.value === text;
+    }
+    // Don't reset the field while the user is typing the same value
+    else if (getValue(element) !== text) {
+      setValue(element, text);
+    }
+  }, { immediate: true });
+
+  if (options?.twoWay === false) {
+    return stopWatching;
+  }
+
+  const event = options?.event ?? 'input';
+  const parse = options?.parse ?? ((text: string) => (typeof state.value === 'number' ? parseNumber(text) : text) as T);
+  const listener = () => {
+    if (checkType === 'checkbox') {
+      state.value = (element as HTMLInputElement).checked as T;
+      return;
+    }
+    // Only the checked radio button of a group updates the state
+    if (checkType === 'radio' && !(element as HTMLInputElement).checked) {
+      return;
+    }
+
+    const value = parse(element.value);
+    // Keep the last valid value while the field is empty or being typed
+    if (typeof value !== 'number' || !Number.isNaN(value)) {
+      state.value = value;
+    }
+  };
+  element.addEventListener(event, listener);
+
+  return () => {
+    stopWatching();
+    element.removeEventListener(event, listener);
+  };
+}
+
+/**
+ * Converts a state value into a string to display.
+ * @param value The value to convert.
+ * @returns Returns the converted value, or an empty string if the value is null or undefined.
+ */
+function defaultFormat(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value);
+}
+
+/**
+ * Converts a field value into a number.
+ * @param text The field value.
+ * @returns Returns the converted value, or NaN if the field is empty or not a valid number.
+ */
+function parseNumber(text: string): number {
+  return text.trim() === '' ? NaN : Number(text.replaceAll(',', '.'));
+}
+
+/**
+ * Gets the element to bind.
+ * @param selectors The CSS selectors to match, or the element itself.
+ * @returns Returns the found element, or null if it doesn't exist.
+ */
+function resolveElement(selectors: string | HTMLElement): HTMLElement | null {
+  return selectors instanceof HTMLElement
+    ? selectors
+    : getElement<HTMLElement>(selectors);
+}
\ No newline at end of file
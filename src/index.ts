@@ -1,9 +1,14 @@
+export * from './binding.ts';
 export * from './dom.ts';
 export * from './interaction.ts';
 export * from './math.ts';
 export * from './media.ts';
 export * from './random.ts';
 export * from './save.ts';
+export * from './serialize.ts';
 export * from './state.ts';
+export * from './storage.ts';
+export * from './store.ts';
 export * from './time.ts';
+export * from './tween.ts';
 export * from './utils.ts';
\ No newline at end of file
@@ -25,6 +25,17 @@ export type ClickCallback = (e?: PointerEvent) => void;
  */
 export type ChangeCallback = (e?: Event, newValue?: string) => void;
 
+/**
+ * Checks if a given element is a field element (input, select or textarea).
+ * @param element The element to check.
+ * @returns Returns true if the given element is a field element.
+ */
+export function isFieldElement(element: Element): element is FieldElement {
+  return element instanceof HTMLInputElement ||
+    element instanceof HTMLSelectElement ||
+    element instanceof HTMLTextAreaElement;
+}
+
 /**
  * Gets the first element in the page that match the given CSS selectors, and add a given callback as "click" event listener.
  * @param selectors The CSS selectors to match.
@@ -147,11 +158,7 @@ export function onChange(selectors: string | FieldElement, callback: ChangeCallb
     return false;
   }
   
-  if (
-    element instanceof HTMLInputElement ||
-    element instanceof HTMLSelectElement ||
-    element instanceof HTMLTextAreaElement
-  ) {
+  if (isFieldElement(element)) {
     element.addEventListener('change', (e) => {
       callback(e, (e.target as FieldElement).value);
     });
@@ -272,11 +279,7 @@ export function getValue(selectors: string | FieldElement): string | null {
     return null;
   }
 
-  if (
-    element instanceof HTMLInputElement ||
-    element instanceof HTMLSelectElement ||
-    element instanceof HTMLTextAreaElement
-  ) {
+  if (isFieldElement(element)) {
     return element.value;
   }
 
@@ -330,11 +333,7 @@ export function setValue(selectors: string | FieldElement, value: string): boole
     return false;
   }
 
-  if (
-    element instanceof HTMLInputElement ||
-    element instanceof HTMLSelectElement ||
-    element instanceof HTMLTextAreaElement
-  ) {
+  if (isFieldElement(element)) {
     element.value = value;
     return true;
   }
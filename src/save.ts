@@ -3,11 +3,434 @@
  * @module Save
  */
 
+import { getElement } from './dom';
+import { deserialize, serialize } from './serialize';
+import { getAsyncStorage, getStorage } from './storage';
+import type { AsyncStorageAdapter, AsyncStorageType, StorageAdapter, StorageType } from './storage';
+
+/**
+ * Options for synchronous Save features.
+ */
+export interface SaveOptions {
+  /**
+   * The storage to use instead of the default one (see {@link setStorage|setStorage()}).
+   */
+  storage?: StorageType | StorageAdapter;
+  /**
+   * If enabled, the previously saved value is kept as backup before being overwritten. If the saved data is corrupted later, the
+   * backup is loaded instead. Also see {@link restoreBackup|restoreBackup()}.
+   */
+  backup?: boolean;
+  /**
+   * If defined, the saved data expires after that duration (in milliseconds), and is then considered as missing when loaded.
+   */
+  ttl?: number;
+  /**
+   * If defined, the saved data expires at that date (as a `Date` or a timestamp in milliseconds), and is then considered as missing
+   * when loaded. Ignored if the `ttl` option is defined.
+   */
+  expires?: Date | number;
+}
+
+/**
+ * Options for asynchronous Save features.
+ */
+export interface AsyncSaveOptions {
+  /**
+   * The storage to use instead of the default one (see {@link setAsyncStorage|setAsyncStorage()}).
+   */
+  storage?: AsyncStorageType | StorageAdapter | AsyncStorageAdapter;
+  /**
+   * If enabled, the previously saved value is kept as backup before being overwritten.
+   * @see {@link SaveOptions.backup}
+   */
+  backup?: boolean;
+  /**
+   * If defined, the saved data expires after that duration (in milliseconds).
+   * @see {@link SaveOptions.ttl}
+   */
+  ttl?: number;
+  /**
+   * If defined, the saved data expires at that date (as a `Date` or a timestamp in milliseconds).
+   * @see {@link SaveOptions.expires}
+   */
+  expires?: Date | number;
+}
+
+/**
+ * Represents the outcome of a Save feature.
+ * - `ok`: the operation succeeded
+ * - `notFound`: there's no saved data for the given key
+ * - `expired`: the saved data has expired (see {@link SaveOptions.ttl})
+ * - `corrupt`: the saved data can't be read, or can't be migrated to the current schema version
+ * - `invalidData`: the data to save can't be serialized (e.g. it contains circular references)
+ * - `quotaExceeded`: the storage is full
+ * - `unavailable`: the storage can't be used in this context (e.g. disabled by the browser settings)
+ */
+export type SaveStatus = 'ok' | 'notFound' | 'expired' | 'corrupt' | 'invalidData' | 'quotaExceeded' | 'unavailable';
+
+/**
+ * Represents the result of a save operation.
+ */
+export interface SaveResult {
+  /**
+   * Defines if the operation succeeded.
+   */
+  ok: boolean;
+  /**
+   * The outcome of the operation.
+   */
+  status: SaveStatus;
+  /**
+   * The error that caused the operation to fail, if any.
+   */
+  error?: unknown;
+}
+
+/**
+ * Represents the result of a load operation.
+ */
+export interface LoadResult<T> extends SaveResult {
+  /**
+   * The loaded data, or the default value if the operation failed.
+   */
+  data: T | null;
+  /**
+   * Defines if the data has been loaded from the backup, because the saved data was corrupted.
+   */
+  fromBackup: boolean;
+}
+
+/**
+ * Represents the estimated space used by the data saved with this utility in a storage.
+ */
+export interface StorageUsage {
+  /**
+   * The total space used, in bytes.
+   */
+  total: number;
+  /**
+   * The space used by each saved key, in bytes.
+   */
+  keys: Record<string, number>;
+}
+
+/**
+ * Represents a function that converts saved data from a schema version to the next one.
+ */
+export type SaveMigration = (data: any) => any;
+
+/**
+ * Describes the current format of the data saved for a given key, and how to convert data saved with an older format.
+ */
+export interface SaveSchema {
+  /**
+   * The current version of the data format. Versions start at 1, and data saved before any schema was defined is considered to be
+   * version 1.
+   */
+  version: number;
+  /**
+   * The functions converting data from the previous version, indexed by the version they produce. So the function at index 3 converts
+   * data from version 2 to version 3.
+   */
+  migrations?: Record<number, SaveMigration>;
+  /**
+   * Called when loaded data can't be converted to the current version (missing or failing migration, or data saved with a newer version).
+   * In that case, the default value is returned instead.
+   * @param data The loaded data, as it was saved.
+   * @param version The version of the loaded data.
+   * @param error The error thrown by the failing migration, if any.
+   */
+  onUnrecoverable?: (data: unknown, version: number, error?: unknown) => void;
+}
+
+/**
+ * Options for clearing saved data.
+ */
+export interface SaveClearOptions extends SaveOptions {
+  /**
+   * If defined and no key is given, only the data saved with this utility in that namespace is cleared (e.g. "slots" for the save
+   * slots).
+   */
+  namespace?: string;
+}
+
+/**
+ * Options for clearing saved data, using a storage that may be asynchronous.
+ */
+export interface AsyncSaveClearOptions extends AsyncSaveOptions {
+  /**
+   * If defined and no key is given, only the data saved with this utility in that namespace is cleared (e.g. "slots" for the save
+   * slots).
+   */
+  namespace?: string;
+}
+
+/**
+ * Options for exporting saved data.
+ */
+export interface SaveExportOptions extends SaveOptions {
+  /**
+   * If defined, only the data saved in that namespace is exported (e.g. "slots" for the save slots). Otherwise, all the data saved with
+   * this utility is exported.
+   */
+  namespace?: string;
+  /**
+   * The name of the downloaded file. Defaults to the namespace or "saves", with the ".json" extension.
+   */
+  fileName?: string;
+}
+
+/**
+ * Represents the outcome of reading a save file.
+ * - `ok`: the file is valid
+ * - `invalidFile`: the file can't be read, or is not a save file
+ * - `unsupportedFormat`: the file has been created with a newer version of this utility
+ * - `checksumMismatch`: the file content has been modified or damaged
+ */
+export type SaveFileStatus = 'ok' | 'invalidFile' | 'unsupportedFormat' | 'checksumMismatch';
+
+/**
+ * Represents a key from an imported save file that already exists in the storage with different data.
+ */
+export interface SaveConflict {
+  /**
+   * The conflicting key.
+   */
+  key: string;
+  /**
+   * The last save date of the existing data, if it's a save slot.
+   */
+  existingUpdatedAt?: number;
+  /**
+   * The last save date of the imported data, if it's a save slot.
+   */
+  importedUpdatedAt?: number;
+}
+
+/**
+ * Represents a save file ready to be imported, as read by {@link readSaveFile|readSaveFile()}.
+ */
+export interface SaveImport {
+  /**
+   * Defines if the file is valid and can be imported.
+   */
+  ok: boolean;
+  /**
+   * The outcome of reading the file.
+   */
+  status: SaveFileStatus;
+  /**
+   * The keys contained in the file. Keys outside of the exported namespace and backup keys are ignored.
+   */
+  keys: string[];
+  /**
+   * The keys from the file that already exist in the storage with different data.
+   */
+  conflicts: SaveConflict[];
+  /**
+   * Writes the data from the file into the storage. Keys that are not in conflict are always written.
+   * @param overwrite If enabled, conflicting keys are overwritten. If it's a list of keys, only these conflicting keys are overwritten.
+   * @returns Returns the list of written keys.
+   */
+  apply(overwrite?: boolean | string[]): string[];
+}
+
+/**
+ * Represents the content of a save file.
+ */
+interface SaveFile {
+  /**
+   * Marks the file as created by this utility, with the version of the file format.
+   */
+  $facileSaves: number;
+  /**
+   * The date when the file has been created, as a timestamp in milliseconds.
+   */
+  createdAt: number;
+  /**
+   * The exported namespace, if any.
+   */
+  namespace?: string;
+  /**
+   * The exported items, as written in the storage.
+   */
+  entries: Record<string, string>;
+  /**
+   * The checksum of the exported entries.
+   */
+  checksum: string;
+}
+
+/**
+ * The current version of the save file format.
+ */
+const SAVE_FILE_FORMAT = 1;
+
+/**
+ * Represents the data actually written in the storage by the Save features.
+ */
+interface SaveEntry {
+  /**
+   * Marks the entry as written by this utility, with the version of the entry format itself.
+   */
+  $facile: number;
+  /**
+   * The schema version of the saved data.
+   */
+  version?: number;
+  /**
+   * The saved data.
+   */
+  data: unknown;
+  /**
+   * The metadata of the entry, if it's a save slot.
+   */
+  meta?: SaveSlotMetadata;
+  /**
+   * The date when the entry expires, as a timestamp in milliseconds.
+   */
+  expires?: number;
+}
+
+/**
+ * Represents the result of parsing an item read from a storage.
+ */
+interface ParsedEntry<T> {
+  /**
+   * The parsed data, or the default value if the item doesn't exist or is corrupted.
+   */
+  data: T | null;
+  /**
+   * The outcome of parsing the item.
+   */
+  status: SaveStatus;
+  /**
+   * The error that caused the parsing to fail, if any.
+   */
+  error?: unknown;
+  /**
+   * Defines if the data has been migrated to the current schema version.
+   */
+  migrated: boolean;
+  /**
+   * The metadata of the entry, if it's a save slot.
+   */
+  meta?: SaveSlotMetadata;
+  /**
+   * The date when the entry expires, as a timestamp in milliseconds.
+   */
+  expires?: number;
+}
+
+/**
+ * The current version of the entry format.
+ */
+const ENTRY_FORMAT = 1;
+
+/**
+ * The schemas defined for saved keys.
+ */
+const schemas = new Map<string, SaveSchema>();
+
+/**
+ * Defines the current format of the data saved for a given key. Data saved for that key is then stamped with the schema version, and
+ * data saved with an older version is migrated when loaded.
+ * @param key The key of the saved data.
+ * @param schema The schema of the saved data, or null to remove the schema of that key.
+ * @example
+ * facile.defineSchema('player', {
+ *  version: 3,
+ *  migrations: {
+ *    // v1 -> v2: added hit points
+ *    2: (player) => ({ ...player, hp: 100 }),
+ *    // v2 -> v3: renamed "pseudo" into "name"
+ *    3: ({ pseudo, ...player }) => ({ ...player, name: pseudo })
+ *  },
+ *  onUnrecoverable: (data) => console.warn('Invalid player data, reset to default', data)
+ * });
+ * const player = facile.load('player', { name: '', score: 0, hp: 100 });
+ */
+export function defineSchema(key: string, schema: SaveSchema | null): void {
+  if (!schema) {
+    schemas.delete(key);
+    return;
+  }
+  if (!Number.isInteger(schema.version) || schema.version < 1) {
+    console.warn(`Failed to define save schema for key "${key}": the version must be an integer greater than 0.`);
+    return;
+  }
+  schemas.set(key, schema);
+}
+
+/**
+ * Options for the save slots features.
+ */
+export interface SaveSlotOptions extends SaveOptions {
+  /**
+   * The namespace of the save slots, so different lists of slots can be managed separately. Defaults to "slots".
+   */
+  namespace?: string;
+}
+
+/**
+ * Options for saving data in a save slot.
+ */
+export interface SaveSlotWriteOptions extends SaveSlotOptions {
+  /**
+   * The label to display for the slot (e.g. "Chapter 2 - The Forest"). If not defined, the existing label is kept.
+   */
+  label?: string;
+  /**
+   * An image representing the slot, as a data URL (e.g. a screenshot from a canvas). If not defined, the existing thumbnail is kept.
+   * @see {@link https://developer.mozilla.org/docs/Web/API/HTMLCanvasElement/toDataURL|MDN - HTMLCanvasElement.toDataURL()}
+   */
+  thumbnail?: string;
+}
+
+/**
+ * Represents the metadata saved along with the data of a save slot.
+ */
+export interface SaveSlotMetadata {
+  /**
+   * The label of the slot.
+   */
+  label?: string;
+  /**
+   * An image representing the slot, as a data URL.
+   */
+  thumbnail?: string;
+  /**
+   * The date when the slot has been created, as a timestamp in milliseconds.
+   */
+  createdAt: number;
+  /**
+   * The date when the slot has been saved for the last time, as a timestamp in milliseconds.
+   */
+  updatedAt: number;
+}
+
+/**
+ * Represents a save slot, as listed by {@link listSlots|listSlots()}.
+ */
+export interface SaveSlot extends SaveSlotMetadata {
+  /**
+   * The name of the slot.
+   */
+  name: string;
+}
+
+/**
+ * The namespace of the save slots if not defined in options.
+ */
+const DEFAULT_SLOTS_NAMESPACE = 'slots';
+
 /**
  * Saves data locally.
  * @param key The key for retrieving the saved data.
  * @param data The data to save.
- * @returns Returns true if the data has been saved successfully.
+ * @param options Options for saving the data.
+ * @returns Returns true if the data has been saved successfully. Use {@link trySave|trySave()} to know why it failed.
  * @see {@link https://developer.mozilla.org/docs/Web/API/Window/localStorage|MDN - Window.localStorage}
  * @see {@link https://developer.mozilla.org/docs/Web/API/Storage/setItem|MDN - Storage.setItem}
  * @example
@@ -16,16 +439,42 @@
  *  score: 12500
  * }
  * facile.save('player', playerState);
+ * @example <caption>Save data for the current session only</caption>
+ * facile.save('player', playerState, { storage: 'session' });
  */
-export function save<T>(key: string, data: T): boolean {
-  localStorage.setItem(key, JSON.stringify(data));
-  return true;
+export function save<T>(key: string, data: T, options?: SaveOptions): boolean {
+  return trySave(key, data, options).ok;
+}
+
+/**
+ * Saves data locally, and reports the outcome of the operation.
+ * @param key The key for retrieving the saved data.
+ * @param data The data to save.
+ * @param options Options for saving the data.
+ * @returns Returns the result of the operation.
+ * @see {@link save|save()}
+ * @example
+ * const result = facile.trySave('player', playerState, { backup: true });
+ * if (result.status === 'quotaExceeded') {
+ *  facile.say('Not enough space to save your progress. Please delete old save slots.');
+ * }
+ */
+export function trySave<T>(key: string, data: T, options?: SaveOptions): SaveResult {
+  let item: string;
+  try {
+    item = stringifyEntry(key, data, undefined, getExpiry(options));
+  }
+  catch (error) {
+    return saveFailure(key, 'invalidData', error);
+  }
+  return writeItem(getStorage(options?.storage), key, item, options?.backup);
 }
 
 /**
  * Loads local data.
  * @param key The key of the saved data.
- * @param defaultValue If defined and the key doesn't exist, this value will be returned instead of null.
+ * @param defaultValue If defined and the key doesn't exist or the saved data is corrupted, this value will be returned instead of null.
+ * @param options Options for loading the data.
  * @returns Returns the loaded data, or null if it the key doesn't exist.
  * @see {@link https://developer.mozilla.org/docs/Web/API/Window/localStorage|MDN - Window.localStorage}
  * @see {@link https://developer.mozilla.org/docs/Web/API/Storage/getItem|MDN - Storage.getItem}
@@ -36,34 +485,1120 @@ export function save<T>(key: string, data: T): boolean {
  * });
  * console.log(playerState);
  */
-export function load<T>(key: string, defaultValue?: T): T | null {
-  const item = localStorage.getItem(key);
-  if (item === null && defaultValue !== undefined) {
-    return defaultValue;
-  }
-  return JSON.parse(item as string);
+export function load<T>(key: string, defaultValue?: T, options?: SaveOptions): T | null {
+  return tryLoad(key, defaultValue, options).data;
+}
+
+/**
+ * Loads local data, and reports the outcome of the operation.
+ * @param key The key of the saved data.
+ * @param defaultValue If defined and the key doesn't exist or the saved data is corrupted, this value will be returned instead of null.
+ * @param options Options for loading the data.
+ * @returns Returns the result of the operation, including the loaded data.
+ * @see {@link load|load()}
+ * @example
+ * const result = facile.tryLoad('player', { name: '', score: 0 });
+ * if (result.status === 'corrupt') {
+ *  facile.say('Your save file is damaged, a new game will start.');
+ * }
+ * console.log(result.data);
+ */
+export function tryLoad<T>(key: string, defaultValue?: T, options?: SaveOptions): LoadResult<T> {
+  return readItem(getStorage(options?.storage), key, key, defaultValue);
 }
 
 /**
  * Clears local data.
- * @param key The key of the saved data. If not defined, clears all the saved data.
+ * @param key The key of the saved data. If not defined, clears all the data saved with this utility (including save slots and their
+ * backups), or only the data of the namespace given in options, but leaves the other data of the storage untouched.
+ * @param options Options for clearing the data.
  * @returns Returns true if the key was valid and the data has been cleared successfully.
  * @see {@link https://developer.mozilla.org/docs/Web/API/Window/localStorage|MDN - Window.localStorage}
  * @see {@link https://developer.mozilla.org/docs/Web/API/Storage/removeItem|MDN - Storage.removeItem}
  * @example
  * facile.clear('player');
+ * @example <caption>Delete all the save slots</caption>
+ * facile.clear(undefined, { namespace: 'slots' });
  */
-export function clear(key?: string) {
-  // Clear the entire local storage if no key given
-  if (!key) {
-    localStorage.clear();
-    return true;
+export function clear(key?: string, options?: SaveClearOptions): boolean {
+  const storage = getStorage(options?.storage);
+  try {
+    // Clear all the saved entries (of the namespace if any) and their backups if no key given
+    if (!key) {
+      for (const storageKey of storage.keys()) {
+        if (isClearable(storageKey, options?.namespace) && readEntry(storage.getItem(storageKey))) {
+          storage.removeItem(storageKey);
+          storage.removeItem(getBackupKey(storageKey));
+        }
+      }
+      return true;
+    }
+
+    // Remvove the named data and its backup if it exists
+    storage.removeItem(getBackupKey(key));
+    if (storage.getItem(key) !== null) {
+      storage.removeItem(key);
+      return true;
+    }
+    return false;
+  }
+  catch (error) {
+    console.warn('Failed to clear saved data: the storage is not available.', error);
+    return false;
+  }
+}
+
+/**
+ * Replaces saved data by its backup, created when saving with the `backup` option enabled.
+ * @param key The key of the saved data.
+ * @param options Options for restoring the data.
+ * @returns Returns true if the backup has been restored successfully, or false if there's no backup for that key.
+ * @example
+ * facile.save('player', playerState, { backup: true });
+ * // ...
+ * facile.restoreBackup('player');
+ */
+export function restoreBackup(key: string, options?: SaveOptions): boolean {
+  const storage = getStorage(options?.storage);
+  try {
+    const backup = storage.getItem(getBackupKey(key));
+    if (backup === null) {
+      console.warn(`Failed to restore backup: No backup found for key "${key}".`);
+      return false;
+    }
+    return writeItem(storage, key, backup, false).ok;
+  }
+  catch (error) {
+    console.warn('Failed to restore backup: the storage is not available.', error);
+    return false;
+  }
+}
+
+/**
+ * Gets the estimated space used by the data saved for a given key, including its backup.
+ * Note that browsers store strings in UTF-16, so each character uses 2 bytes.
+ * @param key The key of the saved data.
+ * @param options Options for reading the data.
+ * @returns Returns the estimated size of the saved data in bytes, or 0 if the key doesn't exist.
+ * @example
+ * console.log(`Player data: ${facile.getSaveSize('player') / 1024} KB`);
+ */
+export function getSaveSize(key: string, options?: SaveOptions): number {
+  const storage = getStorage(options?.storage);
+  try {
+    return getItemSize(key, storage.getItem(key)) + getItemSize(getBackupKey(key), storage.getItem(getBackupKey(key)));
+  }
+  catch {
+    return 0;
+  }
+}
+
+/**
+ * Gets the estimated space used by all the data saved with this utility in a storage.
+ * Note that browsers usually allow about 5 MB for `localStorage`.
+ * @param options Options for reading the data.
+ * @returns Returns the total space used and the space used by each key, in bytes.
+ * @example
+ * const usage = facile.getStorageUsage();
+ * console.log(`Used ${usage.total} bytes`, usage.keys);
+ */
+export function getStorageUsage(options?: SaveOptions): StorageUsage {
+  const storage = getStorage(options?.storage);
+  const usage: StorageUsage = { total: 0, keys: {} };
+  try {
+    for (const key of storage.keys()) {
+      const item = storage.getItem(key);
+      if (readEntry(item)) {
+        usage.keys[key] = getItemSize(key, item);
+        usage.total += usage.keys[key];
+      }
+    }
+  }
+  catch (error) {
+    console.warn('Failed to get storage usage: the storage is not available.', error);
+  }
+  return usage;
+}
+
+/**
+ * Removes all the saved data that has expired. Expired data is already considered as missing when loaded, but this frees the space it
+ * uses in the storage.
+ * @param options Options for removing the data.
+ * @returns Returns the number of removed entries.
+ * @example <caption>Cache daily challenge data, and purge old data on startup</caption>
+ * facile.sweepExpired();
+ * let challenge = facile.load('daily-challenge');
+ * if (!challenge) {
+ *  challenge = await fetchDailyChallenge();
+ *  facile.save('daily-challenge', challenge, { ttl: 24 * 60 * 60 * 1000 });
+ * }
+ */
+export function sweepExpired(options?: SaveOptions): number {
+  const storage = getStorage(options?.storage);
+  let count = 0;
+  try {
+    for (const key of storage.keys()) {
+      const entry = readEntry(storage.getItem(key));
+      if (entry && isExpired(entry)) {
+        storage.removeItem(key);
+        count++;
+      }
+    }
+  }
+  catch (error) {
+    console.warn('Failed to remove expired data: the storage is not available.', error);
+  }
+  return count;
+}
+
+/**
+ * Saves data locally, using a storage that may be asynchronous (like IndexedDB).
+ * @param key The key for retrieving the saved data.
+ * @param data The data to save.
+ * @param options Options for saving the data.
+ * @returns Returns a promise resolved with true if the data has been saved successfully.
+ * @see {@link save|save()}
+ * @example
+ * await facile.saveAsync('level', levelData, { storage: 'indexeddb' });
+ */
+export async function saveAsync<T>(key: string, data: T, options?: AsyncSaveOptions): Promise<boolean> {
+  return (await trySaveAsync(key, data, options)).ok;
+}
+
+/**
+ * Saves data locally using a storage that may be asynchronous (like IndexedDB), and reports the outcome of the operation.
+ * @param key The key for retrieving the saved data.
+ * @param data The data to save.
+ * @param options Options for saving the data.
+ * @returns Returns a promise resolved with the result of the operation.
+ * @see {@link trySave|trySave()}
+ */
+export async function trySaveAsync<T>(key: string, data: T, options?: AsyncSaveOptions): Promise<SaveResult> {
+  let item: string;
+  try {
+    item = stringifyEntry(key, data, undefined, getExpiry(options));
+  }
+  catch (error) {
+    return saveFailure(key, 'invalidData', error);
+  }
+  return writeItemAsync(getAsyncStorage(options?.storage), key, item, options?.backup);
+}
+
+/**
+ * Loads local data, using a storage that may be asynchronous (like IndexedDB).
+ * @param key The key of the saved data.
+ * @param defaultValue If defined and the key doesn't exist or the saved data is corrupted, this value will be returned instead of null.
+ * @param options Options for loading the data.
+ * @returns Returns a promise resolved with the loaded data, or null if it the key doesn't exist.
+ * @see {@link load|load()}
+ * @example
+ * const levelData = await facile.loadAsync('level', null, { storage: 'indexeddb' });
+ */
+export async function loadAsync<T>(key: string, defaultValue?: T, options?: AsyncSaveOptions): Promise<T | null> {
+  return (await tryLoadAsync(key, defaultValue, options)).data;
+}
+
+/**
+ * Loads local data using a storage that may be asynchronous (like IndexedDB), and reports the outcome of the operation.
+ * @param key The key of the saved data.
+ * @param defaultValue If defined and the key doesn't exist or the saved data is corrupted, this value will be returned instead of null.
+ * @param options Options for loading the data.
+ * @returns Returns a promise resolved with the result of the operation, including the loaded data.
+ * @see {@link tryLoad|tryLoad()}
+ */
+export async function tryLoadAsync<T>(key: string, defaultValue?: T, options?: AsyncSaveOptions): Promise<LoadResult<T>> {
+  return readItemAsync(getAsyncStorage(options?.storage), key, key, defaultValue);
+}
+
+/**
+ * Clears local data, using a storage that may be asynchronous (like IndexedDB).
+ * @param key The key of the saved data. If not defined, clears all the data saved with this utility (including save slots and their
+ * backups), or only the data of the namespace given in options, but leaves the other data of the storage untouched.
+ * @param options Options for clearing the data.
+ * @returns Returns a promise resolved with true if the key was valid and the data has been cleared successfully.
+ * @see {@link clear|clear()}
+ * @example
+ * await facile.clearAsync('level', { storage: 'indexeddb' });
+ */
+export async function clearAsync(key?: string, options?: AsyncSaveClearOptions): Promise<boolean> {
+  const storage = getAsyncStorage(options?.storage);
+  try {
+    // Clear all the saved entries (of the namespace if any) and their backups if no key given
+    if (!key) {
+      for (const storageKey of await storage.keys()) {
+        if (isClearable(storageKey, options?.namespace) && readEntry(await storage.getItem(storageKey))) {
+          await storage.removeItem(storageKey);
+          await storage.removeItem(getBackupKey(storageKey));
+        }
+      }
+      return true;
+    }
+
+    // Remvove the named data and its backup if it exists
+    await storage.removeItem(getBackupKey(key));
+    if (await storage.getItem(key) !== null) {
+      await storage.removeItem(key);
+      return true;
+    }
+    return false;
   }
+  catch (error) {
+    console.warn('Failed to clear saved data: the storage is not available.', error);
+    return false;
+  }
+}
+
+/**
+ * Removes all the saved data that has expired, using a storage that may be asynchronous (like IndexedDB).
+ * @param options Options for removing the data.
+ * @returns Returns a promise resolved with the number of removed entries.
+ * @see {@link sweepExpired|sweepExpired()}
+ */
+export async function sweepExpiredAsync(options?: AsyncSaveOptions): Promise<number> {
+  const storage = getAsyncStorage(options?.storage);
+  let count = 0;
+  try {
+    for (const key of await storage.keys()) {
+      const entry = readEntry(await storage.getItem(key));
+      if (entry && isExpired(entry)) {
+        await storage.removeItem(key);
+        count++;
+      }
+    }
+  }
+  catch (error) {
+    console.warn('Failed to remove expired data: the storage is not available.', error);
+  }
+  return count;
+}
+
+/**
+ * Saves data in a save slot, along with metadata. Unlike {@link save|save()}, the saved slots can be listed, which is useful for
+ * making a "Load game" menu.
+ * Note that if a schema is defined for the namespace of the slot (see {@link defineSchema|defineSchema()}), it applies to all the
+ * slots of that namespace.
+ * @param name The name of the slot.
+ * @param data The data to save.
+ * @param options Options for saving the data, including the slot label and thumbnail.
+ * @returns Returns true if the data has been saved successfully.
+ * @example
+ * facile.saveSlot('slot-1', playerState, {
+ *  label: 'Chapter 2 - The Forest',
+ *  thumbnail: canvas.toDataURL()
+ * });
+ */
+export function saveSlot<T>(name: string, data: T, options?: SaveSlotWriteOptions): boolean {
+  const namespace = options?.namespace ?? DEFAULT_SLOTS_NAMESPACE;
+  const storage = getStorage(options?.storage);
+  const key = getSlotKey(namespace, name);
+
+  const now = Date.now();
+  let previousMeta: SaveSlotMetadata | undefined;
+  try {
+    previousMeta = readEntry(storage.getItem(key))?.meta;
+  }
+  catch {
+    // Errors are reported when writing the slot
+  }
+  const meta: SaveSlotMetadata = {
+    label: options?.label ?? previousMeta?.label,
+    thumbnail: options?.thumbnail ?? previousMeta?.thumbnail,
+    createdAt: previousMeta?.createdAt ?? now,
+    updatedAt: now
+  };
+
+  let item: string;
+  try {
+    item = stringifyEntry(namespace, data, meta, getExpiry(options));
+  }
+  catch (error) {
+    return saveFailure(key, 'invalidData', error).ok;
+  }
+  return writeItem(storage, key, item, options?.backup).ok;
+}
+
+/**
+ * Loads the data of a save slot.
+ * @param name The name of the slot.
+ * @param defaultValue If defined and the slot doesn't exist, this value will be returned instead of null.
+ * @param options Options for loading the data.
+ * @returns Returns the loaded data, or null if the slot doesn't exist.
+ * @example
+ * const playerState = facile.loadSlot('slot-1', { name: '', score: 0 });
+ */
+export function loadSlot<T>(name: string, defaultValue?: T, options?: SaveSlotOptions): T | null {
+  const namespace = options?.namespace ?? DEFAULT_SLOTS_NAMESPACE;
+  return readItem(getStorage(options?.storage), getSlotKey(namespace, name), namespace, defaultValue).data;
+}
 
-  // Remvove the named data if it exists
-  if (localStorage.getItem(key) !== null) {
-    localStorage.removeItem(key);
+/**
+ * Lists the save slots of a namespace, from the most recently saved to the oldest.
+ * @param options Options for listing the slots.
+ * @returns Returns the list of save slots with their metadata.
+ * @example
+ * for (const slot of facile.listSlots()) {
+ *  const button = facile.addElement('button', '#load-menu');
+ *  facile.write(button, `${slot.label} (${new Date(slot.updatedAt).toLocaleString()})`);
+ *  facile.onClick(button, () => startGame(facile.loadSlot(slot.name)));
+ * }
+ */
+export function listSlots(options?: SaveSlotOptions): SaveSlot[] {
+  const namespace = options?.namespace ?? DEFAULT_SLOTS_NAMESPACE;
+  const storage = getStorage(options?.storage);
+  const prefix = getSlotKey(namespace, '');
+
+  const slots = new Array<SaveSlot>();
+  try {
+    for (const key of storage.keys()) {
+      if (!key.startsWith(prefix)) {
+        continue;
+      }
+      const entry = readEntry(storage.getItem(key));
+      if (entry?.meta && !isExpired(entry)) {
+        slots.push({ ...entry.meta, name: key.substring(prefix.length) });
+      }
+    }
+  }
+  catch (error) {
+    console.warn('Failed to list save slots: the storage is not available.', error);
+  }
+  return slots.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Renames a save slot.
+ * @param name The current name of the slot.
+ * @param newName The new name of the slot.
+ * @param options Options for renaming the slot.
+ * @returns Returns true if the slot has been renamed successfully, or false if it doesn't exist or if the new name is already used.
+ * @example
+ * facile.renameSlot('autosave', 'slot-2');
+ */
+export function renameSlot(name: string, newName: string, options?: SaveSlotOptions): boolean {
+  if (!copySlot(name, newName, false, options)) {
+    return false;
+  }
+  return deleteSlot(name, options);
+}
+
+/**
+ * Copies a save slot under another name.
+ * @param name The name of the slot to copy.
+ * @param newName The name of the created slot.
+ * @param options Options for copying the slot.
+ * @returns Returns true if the slot has been duplicated successfully, or false if it doesn't exist or if the new name is already used.
+ * @example
+ * facile.duplicateSlot('slot-1', 'slot-1-backup');
+ */
+export function duplicateSlot(name: string, newName: string, options?: SaveSlotOptions): boolean {
+  return copySlot(name, newName, true, options);
+}
+
+/**
+ * Deletes a save slot.
+ * @param name The name of the slot to delete.
+ * @param options Options for deleting the slot.
+ * @returns Returns true if the slot has been deleted successfully, or false if it doesn't exist.
+ * @example
+ * facile.deleteSlot('slot-1');
+ */
+export function deleteSlot(name: string, options?: SaveSlotOptions): boolean {
+  return clear(getSlotKey(options?.namespace ?? DEFAULT_SLOTS_NAMESPACE, name), options);
+}
+
+/**
+ * Bundles saved data into a JSON string, that can be imported back with {@link readSaveFile|readSaveFile()}.
+ * @param options Options for exporting the data.
+ * @returns Returns the content of the save file.
+ * @example
+ * const content = facile.exportSaves({ namespace: 'slots' });
+ * await navigator.clipboard.writeText(content);
+ */
+export function exportSaves(options?: SaveExportOptions): string {
+  const storage = getStorage(options?.storage);
+  const prefix = options?.namespace ? getSlotKey(options.namespace, '') : '';
+
+  const entries: Record<string, string> = {};
+  try {
+    for (const key of storage.keys().sort()) {
+      if (!key.startsWith(prefix) || key.startsWith(getBackupKey(''))) {
+        continue;
+      }
+      // Backups are not exported, since they're only meant to recover from local errors
+      const item = storage.getItem(key);
+      const entry = readEntry(item);
+      if (item !== null && entry && !isExpired(entry)) {
+        entries[key] = item;
+      }
+    }
+  }
+  catch (error) {
+    console.warn('Failed to export saved data: the storage is not available.', error);
+  }
+
+  const file: SaveFile = {
+    $facileSaves: SAVE_FILE_FORMAT,
+    createdAt: Date.now(),
+    namespace: options?.namespace,
+    entries,
+    checksum: getChecksum(entries)
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Bundles saved data into a JSON file, and makes the browser download it.
+ * @param options Options for exporting the data.
+ * @returns Returns true if the download has been started.
+ * @see {@link exportSaves|exportSaves()}
+ * @example
+ * facile.onClick('#export-btn', () => {
+ *  facile.downloadSaves({ namespace: 'slots', fileName: 'my-game.json' });
+ * });
+ */
+export function downloadSaves(options?: SaveExportOptions): boolean {
+  const content = exportSaves(options);
+  try {
+    const url = URL.createObjectURL(new Blob([content], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = options?.fileName ?? `${options?.namespace ?? 'saves'}.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url));
     return true;
   }
-  return false;
+  catch (error) {
+    console.warn('Failed to download saved data.', error);
+    return false;
+  }
+}
+
+/**
+ * Reads a save file created with {@link exportSaves|exportSaves()} or {@link downloadSaves|downloadSaves()}, and checks its integrity.
+ * The data is not written until `apply()` is called on the result, so you can ask the user before overwriting existing data.
+ * @param file The file to read, or its content.
+ * @param options Options for importing the data.
+ * @returns Returns a promise resolved with the save file ready to be imported.
+ * @example
+ * const saveImport = await facile.readSaveFile(file);
+ * if (!saveImport.ok) {
+ *  facile.say('This save file is not valid.');
+ * }
+ * else if (saveImport.conflicts.length === 0 || facile.confirm('Overwrite your current progress?')) {
+ *  saveImport.apply(true);
+ * }
+ */
+export async function readSaveFile(file: Blob | string, options?: SaveOptions): Promise<SaveImport> {
+  const storage = getStorage(options?.storage);
+  const invalid = (status: SaveFileStatus): SaveImport => {
+    console.warn(`Failed to read save file (${status}).`);
+    return invalidSaveImport(status);
+  };
+
+  let saveFile: SaveFile;
+  try {
+    saveFile = JSON.parse(typeof file === 'string' ? file : await file.text());
+  }
+  catch {
+    return invalid('invalidFile');
+  }
+
+  if (!isSaveFile(saveFile)) {
+    return invalid('invalidFile');
+  }
+  if (saveFile.$facileSaves > SAVE_FILE_FORMAT) {
+    return invalid('unsupportedFormat');
+  }
+  if (saveFile.checksum !== getChecksum(saveFile.entries)) {
+    return invalid('checksumMismatch');
+  }
+
+  // Only import the keys that could have been exported, so a file can't overwrite other data or backups
+  const prefix = saveFile.namespace ? getSlotKey(saveFile.namespace, '') : '';
+  const keys = Object.keys(saveFile.entries).filter(key => {
+    const allowed = key.startsWith(prefix) && !key.startsWith(getBackupKey(''));
+    if (!allowed) {
+      console.warn(`Ignored key "${key}" from save file: it's not part of the exported data.`);
+    }
+    return allowed;
+  });
+  const conflicts = new Array<SaveConflict>();
+  for (const key of keys) {
+    let existing: string | null = null;
+    try {
+      existing = storage.getItem(key);
+    }
+    catch {
+      // Errors are reported when applying the import
+    }
+    if (existing !== null && existing !== saveFile.entries[key]) {
+      conflicts.push({
+        key,
+        existingUpdatedAt: readEntry(existing)?.meta?.updatedAt,
+        importedUpdatedAt: readEntry(saveFile.entries[key])?.meta?.updatedAt
+      });
+    }
+  }
+
+  return {
+    ok: true,
+    status: 'ok',
+    keys,
+    conflicts,
+    apply: (overwrite = false) => {
+      const written = new Array<string>();
+      for (const key of keys) {
+        const isConflict = conflicts.some(conflict => conflict.key === key);
+        if (isConflict && (overwrite === false || (Array.isArray(overwrite) && !overwrite.includes(key)))) {
+          continue;
+        }
+        if (writeItem(storage, key, saveFile.entries[key], options?.backup).ok) {
+          written.push(key);
+        }
+      }
+      return written;
+    }
+  };
+}
+
+/**
+ * Gets the first element in the page that match the given CSS selectors, and reads the save files dropped on it.
+ * @param selectors The CSS selectors to match.
+ * @param callback The function to call with each dropped file, once read.
+ * @param options Options for importing the data.
+ * @returns Returns true if the callback has been registered successfully.
+ * @see {@link readSaveFile|readSaveFile()}
+ * @see {@link https://developer.mozilla.org/docs/Web/API/HTML_Drag_and_Drop_API|MDN - HTML Drag and Drop API}
+ * @example
+ * facile.onSaveFileDrop('#drop-zone', (saveImport) => {
+ *  if (saveImport.ok) {
+ *    saveImport.apply(facile.confirm(`${saveImport.conflicts.length} saves will be overwritten. Continue?`));
+ *  }
+ * });
+ */
+export function onSaveFileDrop(selectors: string, callback: (saveImport: SaveImport) => void, options?: SaveOptions): boolean;
+
+/**
+ * Reads the save files dropped on a given element.
+ * @param element The element on which files can be dropped.
+ * @param callback The function to call with each dropped file, once read.
+ * @param options Options for importing the data.
+ * @returns Returns true if the callback has been registered successfully.
+ * @see {@link readSaveFile|readSaveFile()}
+ * @see {@link https://developer.mozilla.org/docs/Web/API/HTML_Drag_and_Drop_API|MDN - HTML Drag and Drop API}
+ */
+export function onSaveFileDrop<E extends HTMLElement>(element: E, callback: (saveImport: SaveImport) => void, options?: SaveOptions): boolean;
+
+export function onSaveFileDrop(selectors: string | HTMLElement, callback: (saveImport: SaveImport) => void, options?: SaveOptions): boolean {
+  const element = selectors instanceof HTMLElement
+    ? selectors
+    : getElement<HTMLElement>(selectors);
+
+  if (!element) {
+    return false;
+  }
+
+  // Prevent the browser from opening the file
+  element.addEventListener('dragover', (e) => e.preventDefault());
+  element.addEventListener('drop', (e) => {
+    e.preventDefault();
+    for (const file of e.dataTransfer?.files ?? []) {
+      notifySaveFile(file, callback, options);
+    }
+  });
+  return true;
+}
+
+/**
+ * Gets the first file input in the page that match the given CSS selectors, and reads the save files selected with it.
+ * @param selectors The CSS selectors to match.
+ * @param callback The function to call with each selected file, once read.
+ * @param options Options for importing the data.
+ * @returns Returns true if the callback has been registered successfully.
+ * @see {@link readSaveFile|readSaveFile()}
+ * @example
+ * // HTML
+ * <input id="import-input" type="file" accept=".json"/>
+ * // JS
+ * facile.onSaveFileSelect('#import-input', (saveImport) => {
+ *  if (saveImport.ok) {
+ *    saveImport.apply(true);
+ *  }
+ * });
+ */
+export function onSaveFileSelect(selectors: string, callback: (saveImport: SaveImport) => void, options?: SaveOptions): boolean;
+
+/**
+ * Reads the save files selected with a given file input.
+ * @param element The file input element.
+ * @param callback The function to call with each selected file, once read.
+ * @param options Options for importing the data.
+ * @returns Returns true if the callback has been registered successfully.
+ * @see {@link readSaveFile|readSaveFile()}
+ */
+export function onSaveFileSelect(element: HTMLInputElement, callback: (saveImport: SaveImport) => void, options?: SaveOptions): boolean;
+
+export function onSaveFileSelect(selectors: string | HTMLInputElement, callback: (saveImport: SaveImport) => void, options?: SaveOptions): boolean {
+  const element = selectors instanceof HTMLElement
+    ? selectors
+    : getElement<HTMLElement>(selectors);
+
+  if (!element) {
+    return false;
+  }
+
+  if (!(element instanceof HTMLInputElement) || element.type !== 'file') {
+    console.warn(`Failed to listen file selection: The element ${selectors} is not a file input.`);
+    return false;
+  }
+
+  element.addEventListener('change', () => {
+    for (const file of element.files ?? []) {
+      notifySaveFile(file, callback, options);
+    }
+    // Allow selecting the same file again
+    element.value = '';
+  });
+  return true;
+}
+
+/**
+ * Reads a save file and passes the result to a listener, without leaving failures unhandled.
+ * @param file The file to read.
+ * @param callback The function to call with the save file, or with an invalid result if it can't be read.
+ * @param options Options for importing the data.
+ */
+function notifySaveFile(file: Blob, callback: (saveImport: SaveImport) => void, options?: SaveOptions): void {
+  readSaveFile(file, options)
+    .catch((error) => {
+      console.warn('Failed to read save file.', error);
+      return invalidSaveImport('invalidFile');
+    })
+    .then((saveImport) => {
+      try {
+        callback(saveImport);
+      }
+      catch (error) {
+        console.error(error);
+        console.warn('Failed to invoke a listener on save file import. See previous error for more info.');
+      }
+    });
+}
+
+/**
+ * Creates the result of reading an invalid save file.
+ * @param status The reason why the file is not valid.
+ * @returns Returns a save import that can't be applied.
+ */
+function invalidSaveImport(status: SaveFileStatus): SaveImport {
+  return { ok: false, status, keys: [], conflicts: [], apply: () => [] };
+}
+
+/**
+ * Checks if a given parsed value is a save file, containing only valid entries.
+ * @param value The value to check.
+ * @returns Returns true if the value is a save file.
+ */
+function isSaveFile(value: unknown): value is SaveFile {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+
+  const saveFile = value as SaveFile;
+  if (typeof saveFile.$facileSaves !== 'number' || (saveFile.namespace !== undefined && typeof saveFile.namespace !== 'string')) {
+    return false;
+  }
+  if (typeof saveFile.entries !== 'object' || saveFile.entries === null || Array.isArray(saveFile.entries)) {
+    return false;
+  }
+  return Object.values(saveFile.entries).every(entry => typeof entry === 'string' && readEntry(entry) !== null);
+}
+
+/**
+ * Gets the storage key of a save slot.
+ * @param namespace The namespace of the slot.
+ * @param name The name of the slot.
+ * @returns Returns the storage key.
+ */
+function getSlotKey(namespace: string, name: string): string {
+  return `${namespace}/${name}`;
+}
+
+/**
+ * Copies a save slot under another name.
+ * @param name The name of the slot to copy.
+ * @param newName The name of the created slot.
+ * @param isNew If enabled, the created slot gets new creation and update dates.
+ * @param options Options for copying the slot.
+ * @returns Returns true if the slot has been copied successfully.
+ */
+function copySlot(name: string, newName: string, isNew: boolean, options?: SaveSlotOptions): boolean {
+  const namespace = options?.namespace ?? DEFAULT_SLOTS_NAMESPACE;
+  const storage = getStorage(options?.storage);
+  const key = getSlotKey(namespace, name);
+  const newKey = getSlotKey(namespace, newName);
+
+  try {
+    const entry = readEntry(storage.getItem(key));
+    if (!entry?.meta) {
+      console.warn(`Failed to copy save slot: No slot found for name "${name}".`);
+      return false;
+    }
+    if (storage.getItem(newKey) !== null) {
+      console.warn(`Failed to copy save slot: A slot named "${newName}" already exists.`);
+      return false;
+    }
+
+    if (isNew) {
+      entry.meta.createdAt = entry.meta.updatedAt = Date.now();
+    }
+    return writeItem(storage, newKey, serialize(entry), false).ok;
+  }
+  catch (error) {
+    console.warn('Failed to copy save slot: the storage is not available.', error);
+    return false;
+  }
+}
+
+/**
+ * Gets the storage key of the backup of saved data.
+ * @param key The key of the saved data.
+ * @returns Returns the storage key.
+ */
+function getBackupKey(key: string): string {
+  return `~backup/${key}`;
+}
+
+/**
+ * Checks if a storage key can be cleared when clearing all the data. Backup keys are not checked, since they're cleared along with
+ * the key they back up.
+ * @param key The storage key to check.
+ * @param namespace The namespace to clear, if any.
+ * @returns Returns true if the key is not a backup key, and is in the namespace if any.
+ */
+function isClearable(key: string, namespace?: string): boolean {
+  return !key.startsWith(getBackupKey('')) && (!namespace || key.startsWith(getSlotKey(namespace, '')));
+}
+
+/**
+ * Computes the checksum of the entries of a save file.
+ * This is meant to detect damaged or hand-edited files, not to prevent cheating.
+ * @param entries The entries of the save file.
+ * @returns Returns the checksum, as an hexadecimal string.
+ */
+function getChecksum(entries: Record<string, string>): string {
+  const text = JSON.stringify(Object.keys(entries).sort().map(key => [key, entries[key]]));
+  // cyrb53 hash
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+/**
+ * Gets the estimated size of an item in a storage.
+ * @param key The key of the item.
+ * @param item The stored item, or null if the key doesn't exist.
+ * @returns Returns the estimated size in bytes, considering strings are stored in UTF-16.
+ */
+function getItemSize(key: string, item: string | null): number {
+  return item !== null ? (key.length + item.length) * 2 : 0;
+}
+
+/**
+ * Gets the status matching an error thrown by a storage.
+ * @param error The thrown error.
+ * @returns Returns the matching status.
+ */
+function getErrorStatus(error: unknown): SaveStatus {
+  if (error instanceof DOMException && (
+    error.name === 'QuotaExceededError' ||
+    // Firefox
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED'
+  )) {
+    return 'quotaExceeded';
+  }
+  return 'unavailable';
+}
+
+/**
+ * Creates the result of a failed save operation, and logs a warning.
+ * @param key The key of the saved data.
+ * @param status The outcome of the operation.
+ * @param error The error that caused the operation to fail.
+ * @returns Returns the result of the operation.
+ */
+function saveFailure(key: string, status: SaveStatus, error: unknown): SaveResult {
+  console.warn(`Failed to save data for key "${key}" (${status}).`, error);
+  return { ok: false, status, error };
+}
+
+/**
+ * Writes an item in a storage.
+ * @param storage The storage where the item is written.
+ * @param key The key of the item.
+ * @param item The item to write.
+ * @param backup If enabled, the existing item is copied as backup before being overwritten.
+ * @returns Returns the result of the operation.
+ */
+function writeItem(storage: StorageAdapter, key: string, item: string, backup?: boolean): SaveResult {
+  try {
+    if (backup) {
+      const previous = storage.getItem(key);
+      // Don't overwrite the backup with corrupted data
+      if (previous !== null && readEntry(previous)) {
+        storage.setItem(getBackupKey(key), previous);
+      }
+    }
+    storage.setItem(key, item);
+    return { ok: true, status: 'ok' };
+  }
+  catch (error) {
+    return saveFailure(key, getErrorStatus(error), error);
+  }
+}
+
+/**
+ * Writes an item in a storage that may be asynchronous.
+ * @see {@link writeItem}
+ */
+async function writeItemAsync(storage: StorageAdapter | AsyncStorageAdapter, key: string, item: string, backup?: boolean): Promise<SaveResult> {
+  try {
+    if (backup) {
+      const previous = await storage.getItem(key);
+      // Don't overwrite the backup with corrupted data
+      if (previous !== null && readEntry(previous)) {
+        await storage.setItem(getBackupKey(key), previous);
+      }
+    }
+    await storage.setItem(key, item);
+    return { ok: true, status: 'ok' };
+  }
+  catch (error) {
+    return saveFailure(key, getErrorStatus(error), error);
+  }
+}
+
+/**
+ * Reads an item from a storage, and parses its data. If the item is corrupted, its backup is used if it exists.
+ * @param storage The storage where the item is read.
+ * @param key The key of the item.
+ * @param schemaKey The key of the schema that applies to the saved data.
+ * @param defaultValue The value to return if the item doesn't exist or is corrupted.
+ * @returns Returns the result of the operation.
+ */
+function readItem<T>(storage: StorageAdapter, key: string, schemaKey: string, defaultValue?: T): LoadResult<T> {
+  let parsed: ParsedEntry<T>;
+  let fromBackup = false;
+  try {
+    parsed = parseEntry(schemaKey, storage.getItem(key), defaultValue);
+    if (parsed.status === 'corrupt') {
+      const backup = parseEntry(schemaKey, storage.getItem(getBackupKey(key)), defaultValue);
+      if (backup.status === 'ok') {
+        console.warn(`Saved data for key "${key}" is corrupted, loaded from backup instead.`);
+        parsed = backup;
+        fromBackup = true;
+      }
+    }
+  }
+  catch (error) {
+    console.warn(`Failed to load data for key "${key}": the storage is not available.`, error);
+    return { ok: false, status: 'unavailable', error, data: defaultValue !== undefined ? defaultValue : null, fromBackup };
+  }
+
+  // Save migrated data so migrations run only once. The loaded data is still returned if the storage fails
+  try {
+    if (parsed.migrated) {
+      writeItem(storage, key, stringifyEntry(schemaKey, parsed.data, parsed.meta, parsed.expires), false);
+    }
+    else if (parsed.status === 'expired') {
+      storage.removeItem(key);
+    }
+  }
+  catch (error) {
+    console.warn(`Failed to update saved data for key "${key}" after loading it.`, error);
+  }
+  return { ok: parsed.status === 'ok', status: parsed.status, error: parsed.error, data: parsed.data, fromBackup };
+}
+
+/**
+ * Reads an item from a storage that may be asynchronous, and parses its data.
+ * @see {@link readItem}
+ */
+async function readItemAsync<T>(storage: StorageAdapter | AsyncStorageAdapter, key: string, schemaKey: string, defaultValue?: T): Promise<LoadResult<T>> {
+  let parsed: ParsedEntry<T>;
+  let fromBackup = false;
+  try {
+    parsed = parseEntry(schemaKey, await storage.getItem(key), defaultValue);
+    if (parsed.status === 'corrupt') {
+      const backup = parseEntry(schemaKey, await storage.getItem(getBackupKey(key)), defaultValue);
+      if (backup.status === 'ok') {
+        console.warn(`Saved data for key "${key}" is corrupted, loaded from backup instead.`);
+        parsed = backup;
+        fromBackup = true;
+      }
+    }
+  }
+  catch (error) {
+    console.warn(`Failed to load data for key "${key}": the storage is not available.`, error);
+    return { ok: false, status: 'unavailable', error, data: defaultValue !== undefined ? defaultValue : null, fromBackup };
+  }
+
+  // Save migrated data so migrations run only once. The loaded data is still returned if the storage fails
+  try {
+    if (parsed.migrated) {
+      await writeItemAsync(storage, key, stringifyEntry(schemaKey, parsed.data, parsed.meta, parsed.expires), false);
+    }
+    else if (parsed.status === 'expired') {
+      await storage.removeItem(key);
+    }
+  }
+  catch (error) {
+    console.warn(`Failed to update saved data for key "${key}" after loading it.`, error);
+  }
+  return { ok: parsed.status === 'ok', status: parsed.status, error: parsed.error, data: parsed.data, fromBackup };
+}
+
+/**
+ * Gets the expiry date of saved data from the options.
+ * @param options The options for saving the data.
+ * @returns Returns the expiry date as a timestamp in milliseconds, or undefined if the data doesn't expire.
+ */
+function getExpiry(options?: SaveOptions | AsyncSaveOptions): number | undefined {
+  if (options?.ttl !== undefined) {
+    return Date.now() + options.ttl;
+  }
+  return options?.expires instanceof Date
+    ? options.expires.getTime()
+    : options?.expires;
+}
+
+/**
+ * Checks if a given entry has expired.
+ * @param entry The entry to check.
+ * @returns Returns true if the entry has an expiry date in the past.
+ */
+function isExpired(entry: SaveEntry): boolean {
+  return entry.expires !== undefined && entry.expires <= Date.now();
+}
+
+/**
+ * Converts data into a string to write in a storage, stamped with the schema version of the key.
+ * @param schemaKey The key of the schema that applies to the saved data.
+ * @param data The data to save.
+ * @param meta The metadata of the entry, if it's a save slot.
+ * @param expires The date when the entry expires, as a timestamp in milliseconds.
+ * @returns Returns the string to write in the storage.
+ */
+function stringifyEntry(schemaKey: string, data: unknown, meta?: SaveSlotMetadata, expires?: number): string {
+  const entry: SaveEntry = {
+    $facile: ENTRY_FORMAT,
+    version: schemas.get(schemaKey)?.version,
+    data,
+    meta,
+    expires
+  };
+  return serialize(entry);
+}
+
+/**
+ * Parses an item read from a storage if it's an entry written by the Save features.
+ * @param item The raw item, or null if the key doesn't exist.
+ * @returns Returns the parsed entry, or null if the item is not a valid entry.
+ */
+function readEntry(item: string | null): SaveEntry | null {
+  if (item === null) {
+    return null;
+  }
+  try {
+    const parsed = deserialize(item);
+    return isEntry(parsed) ? parsed : null;
+  }
+  catch {
+    return null;
+  }
+}
+
+/**
+ * Checks if a given parsed value is an entry written by the Save features.
+ * @param value The value to check.
+ * @returns Returns true if the value is a save entry.
+ */
+function isEntry(value: unknown): value is SaveEntry {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && typeof (value as SaveEntry).$facile === 'number';
+}
+
+/**
+ * Parses an item read from a storage, and migrates its data to the current schema version of the key if needed.
+ * @param key The key of the schema that applies to the saved data.
+ * @param item The raw item, or null if the key doesn't exist.
+ * @param defaultValue The value to return if the item doesn't exist or can't be migrated.
+ * @returns Returns the result of the parsing.
+ */
+function parseEntry<T>(key: string, item: string | null, defaultValue?: T): ParsedEntry<T> {
+  const fallback = defaultValue !== undefined ? defaultValue : null;
+  if (item === null) {
+    return { data: fallback, status: 'notFound', migrated: false };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = deserialize(item);
+  }
+  catch (error) {
+    console.warn(`Failed to parse saved data for key "${key}": the data is corrupted.`, error);
+    return { data: fallback, status: 'corrupt', error, migrated: false };
+  }
+
+  // Data saved before entries were introduced is stored as is
+  const entry: SaveEntry = isEntry(parsed) ? parsed : { $facile: 0, data: parsed };
+  if (isExpired(entry)) {
+    return { data: fallback, status: 'expired', migrated: false };
+  }
+
+  const { meta, expires } = entry;
+  const schema = schemas.get(key);
+  if (!schema) {
+    return { data: entry.data as T, status: 'ok', migrated: false, meta, expires };
+  }
+
+  let version = entry.version ?? 1;
+  let data = entry.data;
+  if (version === schema.version) {
+    return { data: data as T, status: 'ok', migrated: false, meta, expires };
+  }
+
+  // Apply each migration up to the current version
+  const savedVersion = version;
+  try {
+    if (version > schema.version) {
+      throw new Error(`Data has been saved with version ${version}, but current version is ${schema.version}.`);
+    }
+    while (version < schema.version) {
+      const migration = schema.migrations?.[version + 1];
+      if (!migration) {
+        throw new Error(`No migration defined from version ${version} to ${version + 1}.`);
+      }
+      data = migration(data);
+      version++;
+    }
+  }
+  catch (error) {
+    console.warn(`Failed to migrate saved data for key "${key}" from version ${savedVersion} to ${schema.version}.`, error);
+    try {
+      schema.onUnrecoverable?.(entry.data, savedVersion, error);
+    }
+    catch (hookError) {
+      console.error(hookError);
+    }
+    return { data: fallback, status: 'corrupt', error, migrated: false, meta, expires };
+  }
+
+  return { data: data as T, status: 'ok', migrated: true, meta, expires };
 }
\ No newline at end of file
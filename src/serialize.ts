@@ -0,0 +1,309 @@
+/**
+ * Features related to converting values into strings and back, beyond what JSON supports.
+ * @module Serialization
+ */
+
+/**
+ * Represents a class that can be registered with {@link registerType|registerType()}.
+ */
+export type SerializableClass<T> = abstract new (...args: any[]) => T;
+
+/**
+ * Options for registering a class with {@link registerType|registerType()}.
+ */
+export interface SerializableTypeOptions<T> {
+  /**
+   * Converts an instance into a value that can be serialized. If not defined, the own enumerable properties of the instance are
+   * serialized.
+   * @param instance The instance to convert.
+   * @returns Returns the value to serialize (which can contain other serializable values).
+   */
+  serialize?: (instance: T) => unknown;
+  /**
+   * Creates an instance from a deserialized value. If not defined, an instance is created without calling the constructor, and the
+   * deserialized properties are assigned to it.
+   * @param value The deserialized value, as returned by the `serialize()` option.
+   * @returns Returns the created instance.
+   */
+  deserialize?: (value: any) => T;
+}
+
+/**
+ * Represents a serialized value that can't be represented in JSON as is.
+ */
+interface TaggedValue {
+  $type: string;
+  value: unknown;
+}
+
+/**
+ * Groups the informations about a class registered with {@link registerType|registerType()}.
+ */
+interface RegisteredType {
+  name: string;
+  type: SerializableClass<unknown>;
+  options: SerializableTypeOptions<any>;
+}
+
+/**
+ * The built-in typed array classes, indexed by name.
+ */
+const typedArrays: Record<string, { from(values: ArrayLike<any>): ArrayLike<unknown> }> = {
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  BigInt64Array,
+  BigUint64Array
+};
+
+/**
+ * The classes registered with {@link registerType|registerType()}, indexed by name. Besides the classes registered by users, the
+ * {@link State} class is registered as `"State"` when the state module is loaded, so states are saved as their value.
+ */
+const registeredTypesByName = new Map<string, RegisteredType>();
+
+/**
+ * The classes registered with {@link registerType|registerType()}, indexed by constructor.
+ */
+const registeredTypesByClass = new Map<Function, RegisteredType>();
+
+/**
+ * Registers a class so its instances can be serialized, and recreated when deserialized.
+ * @param name The unique name of the class in serialized data. Changing it makes previously serialized data unreadable.
+ * @param type The class to register.
+ * @param options Options for converting instances.
+ * @example <caption>Save and load an instance of a custom class</caption>
+ * class Player {
+ *  name = '';
+ *  score = 0;
+ *  get rank() { return this.score > 1000 ? 'Gold' : 'Bronze'; }
+ * }
+ * facile.registerType('Player', Player);
+ * facile.save('player', new Player());
+ * const player = facile.load('player');
+ * console.log(player.rank); // Outputs "Bronze"
+ */
+export function registerType<T>(name: string, type: SerializableClass<T>, options: SerializableTypeOptions<T> = {}): void {
+  if (name === 'Object' || typedArrays[name] || ['Date', 'Map', 'Set', 'BigInt'].includes(name)) {
+    console.warn(`Failed to register serializable type: The name "${name}" is reserved.`);
+    return;
+  }
+
+  const registeredType: RegisteredType = { name, type, options };
+  registeredTypesByName.set(name, registeredType);
+  registeredTypesByClass.set(type, registeredType);
+}
+
+/**
+ * Converts a value into a JSON string, preserving values that JSON doesn't support: `Date`, `Map`, `Set`, `BigInt`, typed arrays and
+ * instances of classes registered with {@link registerType|registerType()} (including {@link State|states}, which are saved as their
+ * value).
+ * @param value The value to serialize.
+ * @returns Returns the serialized value.
+ * @see {@link https://developer.mozilla.org/docs/Web/JavaScript/Reference/Global_Objects/JSON/stringify|MDN - JSON.stringify()}
+ * @example
+ * const inventory = new Map([['sword', 1], ['potion', 3]]);
+ * const text = facile.serialize(inventory);
+ * console.log(facile.deserialize(text).get('potion')); // Outputs 3
+ */
+export function serialize(value: unknown): string {
+  return JSON.stringify(encode(value, new Set()));
+}
+
+/**
+ * Converts a string created with {@link serialize|serialize()} back into a value.
+ * @param text The string to deserialize.
+ * @returns Returns the deserialized value.
+ * @throws Throws a `SyntaxError` if the given string is not valid JSON.
+ * @see {@link https://developer.mozilla.org/docs/Web/JavaScript/Reference/Global_Objects/JSON/parse|MDN - JSON.parse()}
+ */
+export function deserialize<T = unknown>(text: string): T {
+  return decode(JSON.parse(text)) as T;
+}
+
+/**
+ * Converts a value into a value that can be represented in JSON.
+ * @param value The value to encode.
+ * @param parents The objects being encoded, used to detect circular references.
+ * @returns Returns the encoded value.
+ */
+function encode(value: unknown, parents: Set<object>): unknown {
+  if (typeof value === 'bigint') {
+    return tag('BigInt', value.toString());
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  if (parents.has(value)) {
+    throw new TypeError('Failed to serialize value: Converting circular structure.');
+  }
+  parents.add(value);
+  try {
+    return encodeObject(value, parents);
+  }
+  finally {
+    parents.delete(value);
+  }
+}
+
+/**
+ * Converts an object into a value that can be represented in JSON.
+ * @param value The object to encode.
+ * @param parents The objects being encoded, used to detect circular references.
+ * @returns Returns the encoded value.
+ */
+function encodeObject(value: object, parents: Set<object>): unknown {
+  const registeredType = findRegisteredType(value);
+  if (registeredType) {
+    const data = registeredType.options.serialize ? registeredType.options.serialize(value) : { ...value };
+    return tag(registeredType.name, encode(data, parents));
+  }
+
+  if (value instanceof Date) {
+    return tag('Date', value.getTime());
+  }
+  if (value instanceof Map) {
+    return tag('Map', [...value].map(entry => encode(entry, parents)));
+  }
+  if (value instanceof Set) {
+    return tag('Set', [...value].map(item => encode(item, parents)));
+  }
+  if (ArrayBuffer.isView(value)) {
+    const typedArrayName = Object.keys(typedArrays).find(name => value instanceof (typedArrays[name] as unknown as Function));
+    if (typedArrayName) {
+      const values = Array.from(value as unknown as ArrayLike<number | bigint>, item => typeof item === 'bigint' ? item.toString() : item);
+      return tag(typedArrayName, values);
+    }
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => encode(item, parents));
+  }
+  if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return encode((value as { toJSON(): unknown }).toJSON(), parents);
+  }
+
+  const encoded: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    setOwnProperty(encoded, key, encode(item, parents));
+  }
+  // Escape plain objects that could be confused with a tagged value
+  return '$type' in encoded ? tag('Object', encoded) : encoded;
+}
+
+/**
+ * Converts a value parsed from JSON back into its original value.
+ * @param value The value to decode.
+ * @returns Returns the decoded value.
+ */
+function decode(value: unknown): unknown {
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => decode(item));
+  }
+
+  if (isTagged(value)) {
+    return decodeTagged(value);
+  }
+
+  const decoded: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    setOwnProperty(decoded, key, decode(item));
+  }
+  return decoded;
+}
+
+/**
+ * Converts a tagged value back into its original value.
+ * @param tagged The value to decode.
+ * @returns Returns the decoded value.
+ */
+function decodeTagged({ $type, value }: TaggedValue): unknown {
+  switch ($type) {
+    case 'Object':
+      // Values of escaped objects are decoded, but the object itself must not be considered as tagged again
+      return Object.fromEntries(Object.entries(value as object).map(([key, item]) => [key, decode(item)]));
+    case 'Date':
+      return new Date((value as number | null) ?? NaN);
+    case 'Map':
+      return new Map((value as unknown[]).map(entry => decode(entry) as [unknown, unknown]));
+    case 'Set':
+      return new Set((value as unknown[]).map(item => decode(item)));
+    case 'BigInt':
+      return BigInt(value as string);
+  }
+
+  const typedArray = typedArrays[$type];
+  if (typedArray) {
+    const values = value as Array<number | string>;
+    return typedArray.from($type.startsWith('Big') ? values.map(item => BigInt(item)) : values);
+  }
+
+  const registeredType = registeredTypesByName.get($type);
+  if (!registeredType) {
+    console.warn(`Failed to deserialize value: The type "${$type}" is not registered. Use registerType() to register it.`);
+    return decode(value);
+  }
+
+  const data = decode(value);
+  if (registeredType.options.deserialize) {
+    return registeredType.options.deserialize(data);
+  }
+  const instance = Object.create(registeredType.type.prototype);
+  for (const [key, item] of Object.entries(data as object)) {
+    setOwnProperty(instance, key, item);
+  }
+  return instance;
+}
+
+/**
+ * Finds the registered type of an object, including the types registered for one of its parent classes.
+ * @param value The object to check.
+ * @returns Returns the registered type of the nearest class, or undefined if none is registered.
+ */
+function findRegisteredType(value: object): RegisteredType | undefined {
+  for (let proto = Object.getPrototypeOf(value); proto !== null && proto !== Object.prototype; proto = Object.getPrototypeOf(proto)) {
+    const registeredType = registeredTypesByClass.get(proto.constructor);
+    if (registeredType) {
+      return registeredType;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Defines a property of an object as a plain value, so keys like `__proto__` from parsed data can't change its prototype.
+ * @param target The object on which to define the property.
+ * @param key The name of the property.
+ * @param value The value of the property.
+ */
+function setOwnProperty(target: object, key: string, value: unknown): void {
+  Object.defineProperty(target, key, { value, writable: true, enumerable: true, configurable: true });
+}
+
+/**
+ * Creates a tagged value.
+ * @param type The name of the value type.
+ * @param value The encoded value.
+ * @returns Returns the tagged value.
+ */
+function tag(type: string, value: unknown): TaggedValue {
+  return { $type: type, value };
+}
+
+/**
+ * Checks if a given parsed object is a tagged value.
+ * @param value The object to check.
+ * @returns Returns true if the object is a tagged value.
+ */
+function isTagged(value: object): value is TaggedValue {
+  return typeof (value as TaggedValue).$type === 'string' && 'value' in value && Object.keys(value).length === 2;
+}
\ No newline at end of file
@@ -3,11 +3,115 @@
  * @module State
  */
 
+import { load, save } from './save';
+import type { SaveOptions } from './save';
+import { registerType } from './serialize';
+import { getStorage } from './storage';
+
 /**
  * Represents a function to call when a state value changes.
  */
 export type StateChangeCallback<T> = (value: T | undefined, previousValue: T | undefined) => void;
 
+/**
+ * Represents a function that checks if two values of a state are equal.
+ */
+export type StateEqualityComparer<T> = (a: T | undefined, b: T | undefined) => boolean;
+
+/**
+ * Options for creating a state.
+ */
+export interface StateOptions<T> {
+  /**
+   * The function used to check if a new value is different from the current one, so callbacks are not invoked if it's not. By
+   * default, values are compared using strict equality (`===`).
+   * @example
+   * // Only notify when the position actually moves
+   * const position = facile.state({ x: 0, y: 0 }, {
+   *  equals: (a, b) => a?.x === b?.x && a?.y === b?.y
+   * });
+   */
+  equals?: StateEqualityComparer<T>;
+  /**
+   * If enabled, the previous values of the state are recorded so changes can be undone (see {@link StateHistory}). If it's a number,
+   * defines the maximum number of recorded changes (100 by default).
+   * Note that for deep states, only replaced values are recorded, not the changes made in place.
+   */
+  history?: boolean | number;
+}
+
+/**
+ * Options for creating a read-only state. History is not available, since the value of a read-only state can't be restored.
+ */
+export type ReadonlyStateOptions<T> = Omit<StateOptions<T>, 'history'>;
+
+/**
+ * Options for registering a callback on a state.
+ */
+export interface StateListenerOptions {
+  /**
+   * If enabled, the callback is removed after being invoked once.
+   */
+  once?: boolean;
+  /**
+   * If enabled, the callback is invoked immediately with the current value (and undefined as previous value). This call is not
+   * considered by the `once` option.
+   */
+  immediate?: boolean;
+}
+
+/**
+ * Represents the values of a list of states.
+ */
+export type StateValues<S extends readonly State<any>[]> = { [K in keyof S]: S[K] extends State<infer V> ? V | undefined : never };
+
+/**
+ * The maximum number of changes recorded by a state history if not defined in options.
+ */
+const DEFAULT_HISTORY_DEPTH = 100;
+
+/**
+ * The number of nested {@link batch|batch()} calls being run.
+ */
+let batchDepth = 0;
+
+/**
+ * The notifications deferred until the end of the current batch, indexed by state.
+ */
+const pendingNotifications = new Map<State<any>, () => void>();
+
+/**
+ * The objects wrapped by the proxies created by deep states, indexed by proxy.
+ */
+const proxyTargets = new WeakMap<object, object>();
+
+/**
+ * The array methods that may change several items at once.
+ */
+const arrayMutators = ['copyWithin', 'fill', 'pop', 'push', 'reverse', 'shift', 'sort', 'splice', 'unshift'];
+
+/**
+ * Groups a callback registered on a path of a deep state.
+ */
+interface PathListener {
+  path: string[];
+  callback: StateChangeCallback<any>;
+}
+
+/**
+ * Represents a change made on a deep state, not notified yet.
+ */
+interface DeepChange {
+  /**
+   * The path of the changed property.
+   */
+  path: string[];
+  /**
+   * The value of the property before the change.
+   */
+  previous: unknown;
+}
+
 /**
  * Represents a value that can be "watched" and to which callbacks can be attached to be notified when it changes.
  */
@@ -16,15 +120,33 @@ export class State<T> {
   /**
    * The current value of this state.
    */
-  private _value: T | undefined = undefined;
+  protected _value: T | undefined = undefined;
 
   /**
    * The list of callbacks registered for this state.
    */
-  private _callbacks = new Array<StateChangeCallback<T>>();
+  protected _callbacks = new Array<StateChangeCallback<T>>();
 
-  constructor(state?: T) {
+  /**
+   * The function used to check if a new value is different from the current one.
+   */
+  protected _equals: StateEqualityComparer<T>;
+
+  /**
+   * The recorded changes of this state, or null if the `history` option is not enabled.
+   */
+  public readonly history: StateHistory<T> | null = null;
+
+  /**
+   * @param state The initial value of this state.
+   * @param options Options for creating this state.
+   */
+  constructor(state?: T, options?: StateOptions<T>) {
     this._value = state;
+    this._equals = options?.equals ?? ((a, b) => a === b);
+    if (options?.history) {
+      this.history = new StateHistory(this, options.history === true ? DEFAULT_HISTORY_DEPTH : options.history);
+    }
   }
 
   /**
@@ -38,30 +160,914 @@ export class State<T> {
    * Sets the value of this state, and invoke all registered callbacks.
    */
   public set value(state: T) {
+    this._setValue(state);
+  }
+
+  /**
+   * Adds a new callback to be invoked when the value of this state changes.
+   * @param callback The function to call when this state calue change.
+   * @param options Options for registering the callback.
+   * @returns Returns a function that removes the callback when called.
+   * @example
+   * const stopWatching = score.onChange((newScore) => {
+   *  facile.write('#score', newScore);
+   * }, { immediate: true });
+   * // When the score display is removed
+   * stopWatching();
+   */
+  public onChange(callback: StateChangeCallback<T>, options?: StateListenerOptions): () => void {
+    const dispose = addListener(this._callbacks, options?.once
+      ? (value, previous) => {
+        dispose();
+        callback(value, previous);
+      }
+      : callback
+    );
+    if (options?.immediate) {
+      this._invoke(callback, this.value, undefined);
+    }
+    return dispose;
+  }
+
+  /**
+   * Restores the previous value of this state. Requires the `history` option to be enabled.
+   * @returns Returns true if a change has been undone.
+   * @see {@link StateHistory.undo}
+   */
+  public undo(): boolean {
+    if (!this.history) {
+      console.warn('Failed to undo state change: History is not enabled for this state.');
+      return false;
+    }
+    return this.history.undo();
+  }
+
+  /**
+   * Restores the value of this state before the last undo. Requires the `history` option to be enabled.
+   * @returns Returns true if a change has been redone.
+   * @see {@link StateHistory.redo}
+   */
+  public redo(): boolean {
+    if (!this.history) {
+      console.warn('Failed to redo state change: History is not enabled for this state.');
+      return false;
+    }
+    return this.history.redo();
+  }
+
+  /**
+   * Sets the value of this state, and invoke all registered callbacks.
+   * @param state The new value of this state.
+   * @returns Returns true if the value has changed.
+   */
+  protected _setValue(state: T | undefined): boolean {
     // Cancel if the new value is the same as the existing one
-    if (this._value === state) {
-      return;
+    if (this._equals(this._value, state)) {
+      return false;
     }
 
     const previous = this._value;
     this._value = state;
-    for (const listener of this._callbacks) {
-      try {
-        listener(this._value, previous);
+    this._schedule(() => {
+      // Within a batch, the value may have got back to the one before the batch
+      if (!this._equals(this._value, previous)) {
+        this._notify(previous);
       }
-      catch (error) {
-        console.error(error);
-        console.warn('Failed to invoke a listener on state change. See previous error for more info.');
+    });
+    return true;
+  }
+
+  /**
+   * Runs a notification immediately, or defers it until the end of the current batch. Within a batch, only the first notification
+   * scheduled by a state is kept, so it can notify the value from before the batch as previous value.
+   * @param notification The function that invokes the callbacks.
+   */
+  protected _schedule(notification: () => void): void {
+    if (batchDepth > 0) {
+      if (!pendingNotifications.has(this)) {
+        pendingNotifications.set(this, notification);
       }
+      return;
     }
+    notification();
   }
 
   /**
-   * Adds a new callback to be invoked when the value of this state changes.
-   * @param callback The function to call when this state calue change.
+   * Invokes all the registered callbacks.
+   * @param previous The previous value of this state.
+   */
+  protected _notify(previous: T | undefined): void {
+    const value = this.value;
+    for (const listener of [...this._callbacks]) {
+      this._invoke(listener, value, previous);
+    }
+  }
+
+  /**
+   * Invokes a callback registered on this state, logging any error.
+   * @param listener The callback to invoke.
+   * @param value The current value to pass to the callback.
+   * @param previous The previous value to pass to the callback.
+   */
+  protected _invoke<V>(listener: StateChangeCallback<V>, value: V | undefined, previous: V | undefined): void {
+    try {
+      listener(value, previous);
+    }
+    catch (error) {
+      console.error(error);
+      console.warn('Failed to invoke a listener on state change. See previous error for more info.');
+    }
+  }
+
+}
+
+/**
+ * Records the changes of a state so they can be undone and redone.
+ * Changes made within a {@link batch|batch()} or a {@link StateHistory.group|group()} are recorded as a single step.
+ */
+export class StateHistory<T> {
+
+  /**
+   * Defines if a change can be undone. This is a state itself, so it can be watched (e.g. to enable or disable an "Undo" button).
+   */
+  public readonly canUndo = new State(false);
+
+  /**
+   * Defines if a change can be redone. This is a state itself, so it can be watched (e.g. to enable or disable a "Redo" button).
+   */
+  public readonly canRedo = new State(false);
+
+  /**
+   * The state of which changes are recorded.
+   */
+  private _state: State<T>;
+
+  /**
+   * The maximum number of recorded changes.
+   */
+  private _depth: number;
+
+  /**
+   * The values to restore when undoing changes, from the oldest to the most recent.
+   */
+  private _undoStack = new Array<T | undefined>();
+
+  /**
+   * The values to restore when redoing changes, from the oldest to the most recent.
+   */
+  private _redoStack = new Array<T | undefined>();
+
+  /**
+   * Defines if a change is being undone or redone, so it's not recorded.
+   */
+  private _applying = false;
+
+  /**
+   * The number of nested groups being run.
+   */
+  private _groupDepth = 0;
+
+  /**
+   * Defines if a change has already been recorded in the current group.
+   */
+  private _groupRecorded = false;
+
+  /**
+   * @param state The state of which changes are recorded.
+   * @param depth The maximum number of recorded changes.
+   */
+  constructor(state: State<T>, depth: number) {
+    this._state = state;
+    this._depth = Math.max(1, Math.floor(depth));
+    // Don't use an overridden onChange(), since the history is created before the fields of subclasses are initialized
+    State.prototype.onChange.call(state, (value, previous) => this._record(value, previous));
+  }
+
+  /**
+   * Restores the previous value of the state.
+   * @returns Returns true if a change has been undone, or false if there's nothing to undo.
+   * @example
+   * const text = facile.state('', { history: 50 });
+   * text.value = 'Hello';
+   * text.value = 'Hello world';
+   * text.history.undo();
+   * console.log(text.value); // Outputs "Hello"
+   */
+  public undo(): boolean {
+    return this._restore(this._undoStack, this._redoStack);
+  }
+
+  /**
+   * Restores the value of the state before the last undo.
+   * @returns Returns true if a change has been redone, or false if there's nothing to redo.
+   */
+  public redo(): boolean {
+    return this._restore(this._redoStack, this._undoStack);
+  }
+
+  /**
+   * Runs a function that may change the state several times, and records these changes as a single step.
+   * @param callback The function to run.
+   * @returns Returns the value returned by the given function.
+   * @example
+   * // Undoing will restore the position before the drag
+   * shape.history.group(() => {
+   *  for (const point of dragPath) {
+   *    shape.value = { ...shape.value, ...point };
+   *  }
+   * });
+   */
+  public group<R>(callback: () => R): R {
+    this._groupDepth++;
+    try {
+      return callback();
+    }
+    finally {
+      this._groupDepth--;
+      if (this._groupDepth === 0) {
+        this._groupRecorded = false;
+      }
+    }
+  }
+
+  /**
+   * Removes all the recorded changes.
+   */
+  public clear(): void {
+    this._undoStack = [];
+    this._redoStack = [];
+    this._updateStates();
+  }
+
+  /**
+   * Records a change of the state.
+   * @param value The new value of the state.
+   * @param previous The previous value of the state.
+   */
+  private _record(value: T | undefined, previous: T | undefined): void {
+    // Values changed in place can't be restored
+    if (this._applying || Object.is(value, previous)) {
+      return;
+    }
+    if (this._groupDepth > 0) {
+      if (this._groupRecorded) {
+        return;
+      }
+      this._groupRecorded = true;
+    }
+
+    this._undoStack.push(previous);
+    if (this._undoStack.length > this._depth) {
+      this._undoStack.shift();
+    }
+    this._redoStack = [];
+    this._updateStates();
+  }
+
+  /**
+   * Restores a value from a stack, and saves the current value in the other one.
+   * @param from The stack from which the value is restored.
+   * @param to The stack in which the current value is saved.
+   * @returns Returns true if a value has been restored.
+   */
+  private _restore(from: Array<T | undefined>, to: Array<T | undefined>): boolean {
+    if (from.length === 0) {
+      return false;
+    }
+
+    to.push(this._state.value);
+    this._applying = true;
+    try {
+      this._state.value = from.pop() as T;
+    }
+    finally {
+      this._applying = false;
+    }
+    this._updateStates();
+    return true;
+  }
+
+  /**
+   * Updates the {@link canUndo} and {@link canRedo} states.
+   */
+  private _updateStates(): void {
+    this.canUndo.value = this._undoStack.length > 0;
+    this.canRedo.value = this._redoStack.length > 0;
+  }
+
+}
+
+/**
+ * Represents a read-only state, which value is computed from other states.
+ * The value is computed again only when needed: immediately when a dependency changes if callbacks are registered on this state, or
+ * when the value is read otherwise. Callbacks are invoked only if the computed value actually differs from the previous one.
+ */
+export class Computed<T> extends State<T> {
+
+  /**
+   * The function that computes the value of this state.
+   */
+  private _compute: () => T;
+
+  /**
+   * Defines if a dependency has changed since the value has been computed.
+   */
+  private _dirty = true;
+
+  /**
+   * The functions that remove the callbacks registered on the dependencies.
+   */
+  private _disposers = new Array<() => void>();
+
+  /**
+   * @param dependencies The states from which the value is computed.
+   * @param compute The function that computes the value of this state.
+   * @param options Options for creating this state.
+   */
+  constructor(dependencies: readonly State<any>[], compute: () => T, options?: ReadonlyStateOptions<T>) {
+    super(undefined, withoutHistory(options, 'computed'));
+    this._compute = compute;
+
+    for (const dependency of dependencies) {
+      this._disposers.push(dependency.onChange(() => {
+        this._dirty = true;
+        // Compute the value immediately only if it's watched
+        if (this._callbacks.length > 0) {
+          this._update();
+        }
+      }));
+    }
+  }
+
+  /**
+   * Gets the value of this state, computing it if a dependency has changed.
+   */
+  public override get value(): T | undefined {
+    if (this._dirty) {
+      this._dirty = false;
+      this._value = this._compute();
+    }
+    return this._value;
+  }
+
+  /**
+   * Computed states are read-only: setting the value has no effect.
+   */
+  public override set value(_: T) {
+    console.warn('Failed to set state value: Computed states are read-only.');
+  }
+
+  public override onChange(callback: StateChangeCallback<T>, options?: StateListenerOptions): () => void {
+    // Compute the value now, so the first change notifies the right previous value
+    this._update();
+    return super.onChange(callback, options);
+  }
+
+  /**
+   * Stops watching the dependencies. The value of this state won't change anymore.
+   */
+  public dispose(): void {
+    for (const dispose of this._disposers) {
+      dispose();
+    }
+    this._disposers = [];
+    this._dirty = false;
+  }
+
+  /**
+   * Computes the value of this state if a dependency has changed, and invokes the callbacks if it differs.
+   */
+  private _update(): void {
+    if (!this._dirty) {
+      return;
+    }
+    this._dirty = false;
+    try {
+      this._setValue(this._compute());
+    }
+    catch (error) {
+      console.error(error);
+      console.warn('Failed to compute state value. See previous error for more info.');
+    }
+  }
+
+}
+
+/**
+ * Represents a state holding an object or an array, which notifies its callbacks when any nested property changes, including when
+ * mutated in place (e.g. `player.value.hp -= 10` or `inventory.value.push(item)`).
+ * Only plain objects and arrays are tracked: changes inside other objects (like `Map` or `Date`) are not detected.
+ * When a nested property changes, the callbacks receive the same object as value and previous value, since it has been mutated in
+ * place.
+ */
+export class DeepState<T extends object> extends State<T> {
+
+  /**
+   * The list of callbacks registered on paths of this state.
+   */
+  private _pathListeners = new Array<PathListener>();
+
+  /**
+   * The changes not notified yet.
+   */
+  private _changes = new Array<DeepChange>();
+
+  /**
+   * The proxies created for the objects of this state, indexed by object, then by path.
+   */
+  private _proxies = new WeakMap<object, Map<string, object>>();
+
+  /**
+   * @param state The initial value of this state.
+   * @param options Options for creating this state.
+   */
+  constructor(state?: T, options?: StateOptions<T>) {
+    super(unwrapProxy(state), options);
+  }
+
+  /**
+   * Gets the value of this state, which changes are tracked.
+   */
+  public override get value(): T | undefined {
+    return isTrackable(this._value) ? this._proxify(this._value, []) as T : this._value;
+  }
+
+  /**
+   * Replaces the value of this state, and invoke all registered callbacks.
+   */
+  public override set value(state: T) {
+    const value = unwrapProxy(state);
+    if (this._equals(this._value, value)) {
+      return;
+    }
+    const previous = this._value;
+    this._value = value;
+    this._recordChange([], previous);
+  }
+
+  /**
+   * Adds a new callback to be invoked when the value at a given path of this state changes, either because it has been replaced, or
+   * because one of its nested properties has changed.
+   * @param path The path of the value to watch, as property names separated by dots. Array indices are used as property names.
+   * @param callback The function to call when the value at the given path changes.
+   * @param options Options for registering the callback.
+   * @returns Returns a function that removes the callback when called.
+   * @example
+   * const player = facile.deepState({ hp: 100, inventory: [{ name: 'potion', count: 3 }] });
+   * player.onPathChange('inventory.0.count', (count) => {
+   *  facile.write('#potions', count);
+   * });
+   * player.value.inventory[0].count--;
    */
-  public onChange(callback: StateChangeCallback<T>) {
-    this._callbacks.push(callback);
+  public onPathChange(path: string, callback: StateChangeCallback<any>, options?: StateListenerOptions): () => void {
+    const listener: PathListener = {
+      path: path ? path.split('.') : [],
+      callback: options?.once
+        ? (value, previous) => {
+          dispose();
+          callback(value, previous);
+        }
+        : callback
+    };
+    const dispose = addListener(this._pathListeners, listener);
+    if (options?.immediate) {
+      this._invoke(callback, getAtPath(this.value, listener.path), undefined);
+    }
+    return dispose;
+  }
+
+  /**
+   * Records a change, and notifies it immediately or at the end of the current batch.
+   * @param path The path of the changed property.
+   * @param previous The value of the property before the change.
+   */
+  private _recordChange(path: string[], previous: unknown): void {
+    this._changes.push({ path, previous });
+    this._schedule(() => this._flushChanges());
+  }
+
+  /**
+   * Invokes the callbacks affected by the recorded changes.
+   */
+  private _flushChanges(): void {
+    const changes = this._changes;
+    this._changes = [];
+    if (changes.length === 0) {
+      return;
+    }
+
+    const rootChange = changes.find(change => change.path.length === 0);
+    this._notify(rootChange ? rootChange.previous as T : this.value);
+
+    for (const listener of [...this._pathListeners]) {
+      let replacement: DeepChange | undefined;
+      let mutated = false;
+      for (const change of changes) {
+        // The watched value or one of its parents has been replaced
+        if (!replacement && isPathPrefix(change.path, listener.path)) {
+          replacement = change;
+        }
+        // A property inside the watched value has changed
+        else if (change.path.length > listener.path.length && isPathPrefix(listener.path, change.path)) {
+          mutated = true;
+        }
+      }
+
+      const value = getAtPath(this.value, listener.path);
+      if (replacement) {
+        const previous = getAtPath(replacement.previous, listener.path.slice(replacement.path.length));
+        if (mutated || !Object.is(getAtPath(this._value, listener.path), previous)) {
+          this._invoke(listener.callback, value, previous);
+        }
+      }
+      else if (mutated) {
+        this._invoke(listener.callback, value, value);
+      }
+    }
+  }
+
+  /**
+   * Gets the proxy that tracks the changes of an object of this state.
+   * @param target The object to track.
+   * @param path The path of the object in this state.
+   * @returns Returns the proxy of the object.
+   */
+  private _proxify(target: object, path: string[]): object {
+    const pathKey = path.join('.');
+    let proxies = this._proxies.get(target);
+    if (!proxies) {
+      proxies = new Map();
+      this._proxies.set(target, proxies);
+    }
+
+    let proxy = proxies.get(pathKey);
+    if (proxy) {
+      return proxy;
+    }
+
+    proxy = new Proxy(target, {
+      get: (obj, key, receiver) => {
+        const value = Reflect.get(obj, key, receiver);
+        if (typeof key === 'symbol') {
+          return value;
+        }
+        // Notify changes made by array methods at once
+        if (Array.isArray(obj) && arrayMutators.includes(key)) {
+          return (...args: unknown[]) => batch(() => (value as Function).apply(receiver, args));
+        }
+        return isTrackable(value) ? this._proxify(value, [...path, key]) : value;
+      },
+      set: (obj, key, value) => {
+        if (typeof key === 'symbol') {
+          return Reflect.set(obj, key, value);
+        }
+        const newValue = unwrapProxy(value);
+        const previous = Reflect.get(obj, key);
+        if (key in obj && Object.is(previous, newValue)) {
+          return true;
+        }
+        const result = Reflect.set(obj, key, newValue);
+        this._recordChange([...path, key], previous);
+        return result;
+      },
+      deleteProperty: (obj, key) => {
+        if (typeof key === 'symbol' || !(key in obj)) {
+          return Reflect.deleteProperty(obj, key);
+        }
+        const previous = Reflect.get(obj, key);
+        const result = Reflect.deleteProperty(obj, key);
+        this._recordChange([...path, key], previous);
+        return result;
+      }
+    });
+    proxies.set(pathKey, proxy);
+    proxyTargets.set(proxy, target);
+    return proxy;
+  }
+
+}
+
+/**
+ * Runs a function that may change several states, and invokes their callbacks only once it's done. Each changed state notifies its
+ * callbacks once, with the value it had before the batch as previous value. States that got back to their initial value don't notify.
+ * @param callback The function to run.
+ * @returns Returns the value returned by the given function.
+ * @example
+ * facile.batch(() => {
+ *  gold.value -= price.value;
+ *  inventory.value = [...inventory.value, item];
+ *  gold.value += refund;
+ * });
+ * // gold callbacks are invoked only once here
+ */
+export function batch<R>(callback: () => R): R {
+  batchDepth++;
+  try {
+    return callback();
+  }
+  finally {
+    batchDepth--;
+    if (batchDepth === 0) {
+      const notifications = [...pendingNotifications.values()];
+      pendingNotifications.clear();
+      for (const notify of notifications) {
+        notify();
+      }
+    }
+  }
+}
+
+/**
+ * Options for creating a persisted state.
+ */
+export interface PersistedStateOptions extends SaveOptions {
+  /**
+   * If defined, the value is saved only once it hasn't changed for that delay (in milliseconds). Useful for values that change very
+   * often.
+   */
+  debounce?: number;
+  /**
+   * If enabled, the state is updated when its saved value is changed from another tab of the same site. Only works if the data is saved
+   * in `localStorage`. Enabled by default.
+   */
+  sync?: boolean;
+}
+
+/**
+ * Represents a state that is loaded from local data when created, and saved each time its value changes.
+ * @see {@link save|save()}
+ * @see {@link load|load()}
+ */
+export class PersistedState<T> extends State<T> {
+
+  /**
+   * The key of the saved data.
+   */
+  public readonly key: string;
+
+  /**
+   * The value to use if there's no saved data.
+   */
+  private _defaultValue: T | undefined;
+
+  /**
+   * The options used to save and load the data.
+   */
+  private _options: PersistedStateOptions;
+
+  /**
+   * The timeout of a pending save, if the `debounce` option is used.
+   */
+  private _saveTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Defines if the value is being updated from another tab, so it doesn't need to be saved.
+   */
+  private _syncing = false;
+
+  /**
+   * The listener for "storage" events, if the `sync` option is enabled.
+   */
+  private _storageListener: ((e: StorageEvent) => void) | null = null;
+
+  /**
+   * The listener for the "pagehide" event, used to save pending changes before the page is closed.
+   */
+  private _pageHideListener: (() => void) | null = null;
+
+  /**
+   * @param key The key of the saved data.
+   * @param defaultValue The value to use if there's no saved data.
+   * @param options Options for saving and loading the data.
+   */
+  constructor(key: string, defaultValue?: T, options: PersistedStateOptions = {}) {
+    super(load(key, defaultValue, options) ?? defaultValue);
+    this.key = key;
+    this._defaultValue = defaultValue;
+    this._options = options;
+
+    this.onChange(() => {
+      if (!this._syncing) {
+        this._scheduleSave();
+      }
+    });
+
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    if (options.debounce) {
+      this._pageHideListener = () => this.flush();
+      window.addEventListener('pagehide', this._pageHideListener);
+    }
+
+    // "storage" events are only dispatched in other tabs for localStorage
+    if (options.sync !== false && getStorage(options.storage) === getStorage('local')) {
+      this._storageListener = (e) => {
+        if (e.storageArea !== localStorage || (e.key !== key && e.key !== null)) {
+          return;
+        }
+        this._syncing = true;
+        try {
+          this.value = load(key, this._defaultValue, this._options) ?? this._defaultValue as T;
+        }
+        finally {
+          this._syncing = false;
+        }
+      };
+      window.addEventListener('storage', this._storageListener);
+    }
+  }
+
+  /**
+   * Saves the value immediately if a save is pending because of the `debounce` option.
+   * @returns Returns true if the value has been saved, or false if there was no pending save or if it failed.
+   */
+  public flush(): boolean {
+    if (this._saveTimeout === null) {
+      return false;
+    }
+    clearTimeout(this._saveTimeout);
+    this._saveTimeout = null;
+    return save(this.key, this.value, this._options);
+  }
+
+  /**
+   * Saves any pending change and stops listening to changes from other tabs. The state can still be used, but its value won't be
+   * saved anymore.
+   */
+  public dispose(): void {
+    this.flush();
+    this._syncing = true;
+    if (this._storageListener) {
+      window.removeEventListener('storage', this._storageListener);
+      this._storageListener = null;
+    }
+    if (this._pageHideListener) {
+      window.removeEventListener('pagehide', this._pageHideListener);
+      this._pageHideListener = null;
+    }
+  }
+
+  /**
+   * Saves the value, or schedules it if the `debounce` option is used.
+   */
+  private _scheduleSave(): void {
+    if (!this._options.debounce) {
+      save(this.key, this.value, this._options);
+      return;
+    }
+
+    if (this._saveTimeout !== null) {
+      clearTimeout(this._saveTimeout);
+    }
+    this._saveTimeout = setTimeout(() => {
+      this._saveTimeout = null;
+      save(this.key, this.value, this._options);
+    }, this._options.debounce);
+  }
+
+}
+
+/**
+ * Represents the status of an async state.
+ * - `idle`: the function has not been run yet, or the run has been aborted.
+ * - `loading`: the function is running.
+ * - `success`: the last run succeeded, and its result is the value of the state.
+ * - `error`: the last run failed, and its error is available in {@link AsyncState.error}.
+ */
+export type AsyncStateStatus = 'idle' | 'loading' | 'success' | 'error';
+
+/**
+ * Represents a function that loads the value of an async state.
+ * @param signal The signal aborted when the run becomes stale, because the state has been refreshed or aborted in the meantime.
+ */
+export type AsyncStateLoader<T> = (signal: AbortSignal) => Promise<T>;
+
+/**
+ * Options for creating an async state.
+ */
+export interface AsyncStateOptions<T> extends ReadonlyStateOptions<T> {
+  /**
+   * The value of the state until the first run succeeds.
+   */
+  initialValue?: T;
+  /**
+   * If enabled, the function is run as soon as the state is created. Enabled by default.
+   */
+  immediate?: boolean;
+}
+
+/**
+ * Represents a read-only state which value is the result of an async function (e.g. loading a JSON file). The status and the error
+ * of the last run are also exposed as states.
+ * While the function runs again, the state keeps its previous value. If it's run again before the previous run is done, the previous
+ * run is aborted and its result is ignored.
+ */
+export class AsyncState<T> extends State<T> {
+
+  /**
+   * The status of the last run.
+   */
+  public readonly status = new State<AsyncStateStatus>('idle');
+
+  /**
+   * The error thrown by the last run, or undefined if it didn't fail.
+   */
+  public readonly error = new State<unknown>(undefined);
+
+  /**
+   * The function that loads the value of this state.
+   */
+  private _loader: AsyncStateLoader<T>;
+
+  /**
+   * The controller used to abort the current run, or null if no run is pending.
+   */
+  private _controller: AbortController | null = null;
+
+  /**
+   * @param loader The function that loads the value of this state.
+   * @param options Options for creating this state.
+   */
+  constructor(loader: AsyncStateLoader<T>, options?: AsyncStateOptions<T>) {
+    super(options?.initialValue, withoutHistory(options, 'async'));
+    this._loader = loader;
+    if (options?.immediate !== false) {
+      this.refresh();
+    }
+  }
+
+  /**
+   * Gets the value of this state.
+   */
+  public override get value(): T | undefined {
+    return this._value;
+  }
+
+  /**
+   * Async states are read-only: setting the value has no effect.
+   */
+  public override set value(_: T) {
+    console.warn('Failed to set state value: Async states are read-only.');
+  }
+
+  /**
+   * Checks if the function of this state is running.
+   */
+  public get loading(): boolean {
+    return this.status.value === 'loading';
+  }
+
+  /**
+   * Runs the function of this state again, aborting the pending run if any.
+   * @returns Returns a promise resolved with the loaded value, or with undefined if the run failed or has been aborted.
+   * @example
+   * const scores = facile.asyncState((signal) => fetch('scores.json', { signal }).then(response => response.json()));
+   * facile.onClick('#refresh', () => scores.refresh());
+   */
+  public async refresh(): Promise<T | undefined> {
+    this._controller?.abort();
+    const controller = new AbortController();
+    this._controller = controller;
+    this.status.value = 'loading';
+
+    try {
+      const value = await this._loader(controller.signal);
+      if (this._controller !== controller) {
+        return undefined;
+      }
+      this._controller = null;
+      batch(() => {
+        this._setValue(value);
+        this.error.value = undefined;
+        this.status.value = 'success';
+      });
+      return value;
+    }
+    catch (error) {
+      if (this._controller !== controller) {
+        return undefined;
+      }
+      this._controller = null;
+      batch(() => {
+        this.error.value = error;
+        this.status.value = 'error';
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Aborts the pending run if any. The state keeps its previous value, and its status becomes `idle`.
+   */
+  public abort(): void {
+    if (!this._controller) {
+      return;
+    }
+    this._controller.abort();
+    this._controller = null;
+    this.status.value = 'idle';
   }
 
 }
@@ -69,6 +1075,7 @@ export class State<T> {
 /**
  * Creates a "state", a value able to invoke callbacks when changed.
  * @param value The initial value of the created state.
+ * @param options Options for creating the state.
  * @returns Returns the created state.
  * @example
  * // Create the state
@@ -80,6 +1087,169 @@ export class State<T> {
  * // Change the state value
  * score.value = 100;
  */
-export function state<T>(value?: T) {
-  return new State(value);
-}
\ No newline at end of file
+export function state<T>(value?: T, options?: StateOptions<T>) {
+  return new State(value, options);
+}
+
+/**
+ * Creates a read-only state which value is computed from other states, and updated when any of them changes.
+ * @param dependencies The states from which the value is computed.
+ * @param compute The function that computes the value, from the values of the dependencies.
+ * @param options Options for creating the state.
+ * @returns Returns the created state.
+ * @example
+ * const score = facile.state(0);
+ * const level = facile.computed([score], (score) => Math.floor(score / 1000) + 1);
+ * level.onChange((newLevel) => {
+ *  facile.say(`Level up! You're now level ${newLevel}`);
+ * });
+ * score.value = 1500;
+ * @example <caption>Compute a value from several states</caption>
+ * const gold = facile.state(100);
+ * const price = facile.state(150);
+ * const canBuy = facile.computed([gold, price], (gold, price) => gold >= price);
+ */
+export function computed<S extends readonly State<any>[], T>(dependencies: [...S], compute: (...values: StateValues<S>) => T, options?: ReadonlyStateOptions<T>) {
+  return new Computed(dependencies, () => compute(...dependencies.map(dependency => dependency.value) as StateValues<S>), options);
+}
+
+/**
+ * Creates a state holding an object or an array, which notifies its callbacks when any nested property changes.
+ * @param value The initial value of the created state.
+ * @param options Options for creating the state.
+ * @returns Returns the created state.
+ * @see {@link DeepState}
+ * @example
+ * const player = facile.deepState({ name: 'MagicPoney', hp: 100, inventory: [] });
+ * player.onChange(() => console.log('Player changed'));
+ * player.onPathChange('hp', (hp, previousHp) => console.log(`HP: ${previousHp} -> ${hp}`));
+ * // Both callbacks are invoked
+ * player.value.hp -= 10;
+ * // Only the first callback is invoked
+ * player.value.inventory.push('sword');
+ */
+export function deepState<T extends object>(value?: T, options?: StateOptions<T>) {
+  return new DeepState(value, options);
+}
+
+/**
+ * Creates a state that is loaded from local data when created, and saved each time its value changes.
+ * @param key The key of the saved data.
+ * @param defaultValue The value to use if there's no saved data.
+ * @param options Options for saving and loading the data.
+ * @returns Returns the created state.
+ * @example
+ * // Load the score, or start at 0
+ * const score = facile.persistedState('score', 0);
+ * score.onChange((newScore) => {
+ *  facile.write('#score', newScore);
+ * });
+ * // The new score is saved automatically
+ * score.value += 100;
+ * @example <caption>Save a value that changes often at most once per second</caption>
+ * const position = facile.persistedState('position', { x: 0, y: 0 }, { debounce: 1000 });
+ */
+export function persistedState<T>(key: string, defaultValue?: T, options?: PersistedStateOptions) {
+  return new PersistedState(key, defaultValue, options);
+}
+
+/**
+ * Creates a read-only state which value is the result of an async function, with its status and error exposed as states.
+ * @param loader The function that loads the value. It receives a signal aborted if the run becomes stale.
+ * @param options Options for creating the state.
+ * @returns Returns the created state.
+ * @see {@link AsyncState}
+ * @example
+ * const levels = facile.asyncState((signal) => fetch('levels.json', { signal }).then(response => response.json()));
+ * facile.bindVisibility('#spinner', levels.status, { when: status => status === 'loading' });
+ * facile.bindText('#error', levels.error, error => error ? 'Failed to load levels' : '');
+ * levels.onChange((levels) => console.log('Levels loaded', levels));
+ */
+export function asyncState<T>(loader: AsyncStateLoader<T>, options?: AsyncStateOptions<T>) {
+  return new AsyncState(loader, options);
+}
+
+/**
+ * Adds a listener to a list.
+ * @param listeners The list of listeners.
+ * @param listener The listener to add.
+ * @returns Returns a function that removes the listener from the list when called.
+ */
+function addListener<L>(listeners: L[], listener: L): () => void {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index >= 0) {
+      listeners.splice(index, 1);
+    }
+  };
+}
+
+/**
+ * Checks if a value is an object which changes can be tracked by deep states.
+ * @param value The value to check.
+ * @returns Returns true if the value is a plain object or an array.
+ */
+function isTrackable(value: unknown): value is object {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return Array.isArray(value) || prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Gets the object wrapped by a proxy created by a deep state.
+ * @param value The value to unwrap.
+ * @returns Returns the wrapped object, or the value itself if it's not a proxy.
+ */
+function unwrapProxy<T>(value: T): T {
+  return (typeof value === 'object' && value !== null && proxyTargets.get(value) as T) || value;
+}
+
+/**
+ * Gets the value at a given path of an object.
+ * @param value The object from which to get the value.
+ * @param path The path of the value to get.
+ * @returns Returns the found value, or undefined if the path doesn't exist.
+ */
+function getAtPath(value: unknown, path: string[]): unknown {
+  for (const key of path) {
+    if (typeof value !== 'object' || value === null) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Removes the `history` option for a read-only state, which can't be restored.
+ * @param options The options for creating the state.
+ * @param kind The kind of read-only state, for the warning message.
+ * @returns Returns the options without history.
+ */
+function withoutHistory<O extends ReadonlyStateOptions<any>>(options: O | undefined, kind: string): O | undefined {
+  if (options && (options as StateOptions<unknown>).history) {
+    console.warn(`Failed to enable state history: History is not available for ${kind} states, since they're read-only.`);
+    return { ...options, history: undefined };
+  }
+  return options;
+}
+
+/**
+ * Checks if a path starts with another one.
+ * @param prefix The expected beginning of the path.
+ * @param path The path to check.
+ * @returns Returns true if the path starts with the given prefix, or is equal to it.
+ */
+function isPathPrefix(prefix: string[], path: string[]): boolean {
+  return prefix.length <= path.length && prefix.every((key, index) => path[index] === key);
+}
+
+// Register states when this module is loaded (see the registry in the serialization module), and save only their value, since
+// listeners can't be serialized
+registerType('State', State, {
+  serialize: (instance) => instance.value,
+  deserialize: (value) => new State(value)
+});
\ No newline at end of file
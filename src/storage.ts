@@ -0,0 +1,388 @@
+/**
+ * Storage backends used by the Save features to store data.
+ * @module Storage
+ */
+
+/**
+ * Represents a synchronous storage backend, where data can be saved as strings.
+ */
+export interface StorageAdapter {
+  /**
+   * Gets the value stored for a given key.
+   * @param key The key of the value to get.
+   * @returns Returns the stored value, or null if the key doesn't exist.
+   */
+  getItem(key: string): string | null;
+  /**
+   * Stores a value for a given key, overwriting any existing value.
+   * @param key The key of the value to store.
+   * @param value The value to store.
+   */
+  setItem(key: string, value: string): void;
+  /**
+   * Removes the value stored for a given key.
+   * @param key The key of the value to remove.
+   */
+  removeItem(key: string): void;
+  /**
+   * Lists all the keys of this storage.
+   * @returns Returns the list of keys.
+   */
+  keys(): string[];
+  /**
+   * Removes all the values of this storage.
+   */
+  clear(): void;
+}
+
+/**
+ * Represents an asynchronous storage backend, where data can be saved as strings.
+ * @see {@link StorageAdapter}
+ */
+export interface AsyncStorageAdapter {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Represents the name of a built-in synchronous storage backend.
+ * - `local`: uses `window.localStorage`, data persists across sessions
+ * - `session`: uses `window.sessionStorage`, data is cleared when the page session ends
+ * - `memory`: data is kept in memory, and lost when the page is closed
+ */
+export type StorageType = 'local' | 'session' | 'memory';
+
+/**
+ * Represents the name of a built-in storage backend, including the asynchronous ones.
+ * - `indexeddb`: uses `window.indexedDB`, data persists across sessions and can be large
+ * @see {@link StorageType}
+ */
+export type AsyncStorageType = StorageType | 'indexeddb';
+
+/**
+ * Storage backend using a Web Storage API object (`localStorage` or `sessionStorage`).
+ */
+export class WebStorageAdapter implements StorageAdapter {
+
+  /**
+   * The function used to get the Web Storage API object.
+   */
+  private _getStorage: () => Storage;
+
+  /**
+   * @param getStorage The function used to get the Web Storage API object. It's called on each operation, since accessing the storage
+   * may throw in some contexts (e.g. private browsing iframes).
+   */
+  constructor(getStorage: () => Storage) {
+    this._getStorage = getStorage;
+  }
+
+  /**
+   * Checks if the storage can be used in the current context.
+   */
+  public get available(): boolean {
+    try {
+      const storage = this._getStorage();
+      const testKey = '__facile_test__';
+      storage.setItem(testKey, testKey);
+      storage.removeItem(testKey);
+      return true;
+    }
+    catch {
+      return false;
+    }
+  }
+
+  public getItem(key: string): string | null {
+    return this._getStorage().getItem(key);
+  }
+
+  public setItem(key: string, value: string): void {
+    this._getStorage().setItem(key, value);
+  }
+
+  public removeItem(key: string): void {
+    this._getStorage().removeItem(key);
+  }
+
+  public keys(): string[] {
+    const storage = this._getStorage();
+    const keys = new Array<string>();
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i);
+      if (key !== null) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+
+  public clear(): void {
+    this._getStorage().clear();
+  }
+
+}
+
+/**
+ * Storage backend keeping data in memory. Useful for tests, or when no persistent storage is available.
+ */
+export class MemoryStorage implements StorageAdapter {
+
+  /**
+   * The values stored in memory.
+   */
+  private _items = new Map<string, string>();
+
+  public getItem(key: string): string | null {
+    return this._items.get(key) ?? null;
+  }
+
+  public setItem(key: string, value: string): void {
+    this._items.set(key, String(value));
+  }
+
+  public removeItem(key: string): void {
+    this._items.delete(key);
+  }
+
+  public keys(): string[] {
+    return [...this._items.keys()];
+  }
+
+  public clear(): void {
+    this._items.clear();
+  }
+
+}
+
+/**
+ * Storage backend using an IndexedDB database, suitable for large data.
+ * @see {@link https://developer.mozilla.org/docs/Web/API/IndexedDB_API|MDN - IndexedDB API}
+ */
+export class IndexedDBStorage implements AsyncStorageAdapter {
+
+  /**
+   * The name of the database to open.
+   */
+  private _dbName: string;
+
+  /**
+   * The name of the object store where data is saved.
+   */
+  private _storeName: string;
+
+  /**
+   * The database once opened.
+   */
+  private _db: Promise<IDBDatabase> | null = null;
+
+  /**
+   * @param dbName The name of the database to open.
+   * @param storeName The name of the object store where data is saved.
+   */
+  constructor(dbName = 'facile', storeName = 'saves') {
+    this._dbName = dbName;
+    this._storeName = storeName;
+  }
+
+  public async getItem(key: string): Promise<string | null> {
+    const value = await this._request<string | undefined>('readonly', store => store.get(key));
+    return value ?? null;
+  }
+
+  public async setItem(key: string, value: string): Promise<void> {
+    await this._request('readwrite', store => store.put(value, key));
+  }
+
+  public async removeItem(key: string): Promise<void> {
+    await this._request('readwrite', store => store.delete(key));
+  }
+
+  public async keys(): Promise<string[]> {
+    const keys = await this._request<IDBValidKey[]>('readonly', store => store.getAllKeys());
+    return keys.map(key => String(key));
+  }
+
+  public async clear(): Promise<void> {
+    await this._request('readwrite', store => store.clear());
+  }
+
+  /**
+   * Opens the database if needed.
+   * @returns Returns the opened database.
+   */
+  private _open(): Promise<IDBDatabase> {
+    if (!this._db) {
+      this._db = this._openDatabase().then((db) => {
+        if (db.objectStoreNames.contains(this._storeName)) {
+          return db;
+        }
+        // The database already exists without this object store (e.g. created with another store name): upgrade it to add the store
+        const version = db.version + 1;
+        db.close();
+        return this._openDatabase(version);
+      });
+      // Allow retrying to open the database if it failed
+      this._db.catch(() => this._db = null);
+    }
+    return this._db;
+  }
+
+  /**
+   * Opens the database, and creates the object store if it doesn't exist.
+   * @param version The version of the database to open. If greater than the current one, the database is upgraded.
+   * @returns Returns the opened database.
+   */
+  private _openDatabase(version?: number): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this._dbName, version);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(this._storeName)) {
+          request.result.createObjectStore(this._storeName);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let other instances or pages upgrade the database, and reopen it on next use
+        db.onversionchange = () => {
+          db.close();
+          this._db = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Runs a request on the object store of this database.
+   * @param mode The transaction mode.
+   * @param operation The function that creates the request from the object store.
+   * @returns Returns the result of the request. For write operations, the promise is resolved once the transaction is committed.
+   */
+  private async _request<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this._open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this._storeName, mode);
+      const request = operation(transaction.objectStore(this._storeName));
+      if (mode === 'readonly') {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        return;
+      }
+
+      // A write is only durable once its transaction is committed, and may still be aborted after the request succeeded
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onabort = () => reject(transaction.error ?? request.error ?? new DOMException('The transaction was aborted.', 'AbortError'));
+      transaction.onerror = () => reject(transaction.error ?? request.error);
+    });
+  }
+
+}
+
+/**
+ * The built-in storage backends, created once.
+ */
+const builtInStorages = {
+  local: new WebStorageAdapter(() => localStorage),
+  session: new WebStorageAdapter(() => sessionStorage),
+  memory: new MemoryStorage(),
+  indexeddb: null as IndexedDBStorage | null
+};
+
+/**
+ * The storage used by default by synchronous Save features, or null if not defined yet.
+ */
+let defaultStorage: StorageAdapter | null = null;
+
+/**
+ * The storage used by default by asynchronous Save features, or null to use the synchronous default storage.
+ */
+let defaultAsyncStorage: StorageAdapter | AsyncStorageAdapter | null = null;
+
+/**
+ * Defines the storage used by default by {@link save|save()}, {@link load|load()} and {@link clear|clear()}.
+ * @param storage The name of a built-in storage, or a custom storage backend.
+ * @example <caption>Keep data in memory when running tests</caption>
+ * facile.setStorage('memory');
+ * facile.save('score', 100); // Not written in localStorage
+ */
+export function setStorage(storage: StorageType | StorageAdapter): void {
+  defaultStorage = getStorage(storage);
+}
+
+/**
+ * Gets the storage used by default by synchronous Save features.
+ * If no storage has been defined, uses `localStorage` if available, or fallbacks to memory.
+ * @returns Returns the default storage backend.
+ */
+export function getStorage(): StorageAdapter;
+
+/**
+ * Gets a built-in storage backend.
+ * @param type The name of the built-in storage to get.
+ * @returns Returns the storage backend.
+ */
+export function getStorage(type: StorageType): StorageAdapter;
+
+/**
+ * Returns the given storage backend as is.
+ * @param storage The storage backend.
+ * @returns Returns the given storage backend.
+ */
+export function getStorage(storage: StorageType | StorageAdapter | undefined): StorageAdapter;
+
+export function getStorage(storage?: StorageType | StorageAdapter): StorageAdapter {
+  if (typeof storage === 'string') {
+    return builtInStorages[storage];
+  }
+  if (storage) {
+    return storage;
+  }
+
+  if (!defaultStorage) {
+    if (builtInStorages.local.available) {
+      defaultStorage = builtInStorages.local;
+    }
+    else {
+      console.warn('localStorage is not available in this context: saved data will be kept in memory only.');
+      defaultStorage = builtInStorages.memory;
+    }
+  }
+  return defaultStorage;
+}
+
+/**
+ * Defines the storage used by default by {@link saveAsync|saveAsync()}, {@link loadAsync|loadAsync()} and
+ * {@link clearAsync|clearAsync()}.
+ * @param storage The name of a built-in storage, or a custom storage backend. If null, the asynchronous features use the same storage
+ * as the synchronous ones.
+ * @example
+ * facile.setAsyncStorage('indexeddb');
+ * await facile.saveAsync('level', hugeLevelData);
+ */
+export function setAsyncStorage(storage: AsyncStorageType | StorageAdapter | AsyncStorageAdapter | null): void {
+  defaultAsyncStorage = storage ? getAsyncStorage(storage) : null;
+}
+
+/**
+ * Gets the storage used by default by asynchronous Save features, or a built-in storage backend.
+ * @param storage The name of the built-in storage to get, or a storage backend to return as is. If not defined, returns the default
+ * storage for asynchronous features.
+ * @returns Returns the storage backend.
+ */
+export function getAsyncStorage(storage?: AsyncStorageType | StorageAdapter | AsyncStorageAdapter): StorageAdapter | AsyncStorageAdapter {
+  if (storage === 'indexeddb') {
+    if (!builtInStorages.indexeddb) {
+      builtInStorages.indexeddb = new IndexedDBStorage();
+    }
+    return builtInStorages.indexeddb;
+  }
+  if (typeof storage === 'string') {
+    return getStorage(storage);
+  }
+  return storage ?? defaultAsyncStorage ?? getStorage();
+}
\ No newline at end of file
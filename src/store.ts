@@ -0,0 +1,369 @@
+/**
+ * Utility for grouping related states, and changing them only through named actions.
+ * @module Store
+ */
+
+import { batch, Computed, State } from './state';
+
+/**
+ * Represents the writable states of a store, as passed to its actions.
+ */
+export type StoreStates<S> = { [K in keyof S]: State<S[K]> };
+
+/**
+ * Represents the read-only states of a store, as exposed publicly.
+ */
+export type ReadonlyStoreStates<S> = { readonly [K in keyof S]: Computed<S[K]> };
+
+/**
+ * Represents a function that changes the states of a store.
+ * @param states The writable states of the store.
+ * @param args The arguments passed when dispatching the action.
+ */
+export type StoreAction<S> = (states: StoreStates<S>, ...args: any[]) => unknown;
+
+/**
+ * Represents the actions of a store, indexed by name.
+ */
+export type StoreActions<S> = Record<string, StoreAction<S>>;
+
+/**
+ * Represents the arguments of a store action, without the states passed first.
+ */
+export type StoreActionArgs<F> = F extends (states: any, ...args: infer P) => unknown ? P : never;
+
+/**
+ * Represents the value returned by a store action.
+ */
+export type StoreActionResult<F> = F extends (...args: any[]) => infer R ? R : never;
+
+/**
+ * Represents the actions of a store, bound to the store so they can be called directly.
+ */
+export type BoundStoreActions<A> = {
+  [K in keyof A]: (...args: StoreActionArgs<A[K]>) => StoreActionResult<A[K]>
+};
+
+/**
+ * Represents a function to call when an action is dispatched on a store.
+ */
+export type StoreActionCallback<S> = (entry: StoreLogEntry<S>) => void;
+
+/**
+ * Represents an action dispatched on a store, with the values of the store before and after it.
+ */
+export interface StoreLogEntry<S> {
+  /**
+   * The name of the dispatched action.
+   */
+  action: string;
+  /**
+   * The arguments passed to the action.
+   */
+  args: unknown[];
+  /**
+   * The values of the store before the action.
+   */
+  before: S;
+  /**
+   * The values of the store after the action.
+   */
+  after: S;
+  /**
+   * The date when the action has been dispatched, as a timestamp in milliseconds.
+   */
+  time: number;
+}
+
+/**
+ * Options for creating a store.
+ */
+export interface StoreOptions<S, A extends StoreActions<S>> {
+  /**
+   * The initial values of the store, indexed by name.
+   */
+  state: S;
+  /**
+   * The functions that change the values of the store, indexed by name. Actions are expected to be synchronous.
+   */
+  actions: A;
+  /**
+   * The maximum number of dispatched actions kept in the log. Defaults to 100.
+   */
+  logSize?: number;
+}
+
+/**
+ * The maximum number of entries in the log of a store if not defined in options.
+ */
+const DEFAULT_LOG_SIZE = 100;
+
+/**
+ * Represents a group of related states, which can only be changed through named actions. Each dispatched action is logged with the
+ * values of the store before and after it, so changes can be followed, and replayed or reverted for debugging.
+ */
+export class Store<S extends Record<string, any>, A extends StoreActions<S>> {
+
+  /**
+   * The states of this store. They're read-only: use actions to change them.
+   */
+  public readonly state: ReadonlyStoreStates<S>;
+
+  /**
+   * The actions of this store, that can be called directly.
+   */
+  public readonly actions: BoundStoreActions<A>;
+
+  /**
+   * The writable states of this store.
+   */
+  private _states: StoreStates<S>;
+
+  /**
+   * The functions that change the values of this store.
+   */
+  private _actions: A;
+
+  /**
+   * The dispatched actions, from the oldest to the most recent.
+   */
+  private _log = new Array<StoreLogEntry<S>>();
+
+  /**
+   * The maximum number of entries in the log.
+   */
+  private _logSize: number;
+
+  /**
+   * The callbacks to invoke when an action is dispatched.
+   */
+  private _callbacks = new Array<StoreActionCallback<S>>();
+
+  /**
+   * @param options Options for creating this store.
+   */
+  constructor(options: StoreOptions<S, A>) {
+    this._actions = options.actions;
+    this._logSize = options.logSize ?? DEFAULT_LOG_SIZE;
+
+    const states: Partial<StoreStates<S>> = {};
+    const readonlyStates: Partial<ReadonlyStoreStates<S>> = {};
+    for (const key of Object.keys(options.state) as Array<keyof S>) {
+      const state = new State(options.state[key]);
+      states[key] = state;
+      readonlyStates[key] = new Computed([state], () => state.value as S[typeof key]);
+    }
+    this._states = states as StoreStates<S>;
+    this.state = readonlyStates as ReadonlyStoreStates<S>;
+
+    const actions: Partial<BoundStoreActions<A>> = {};
+    for (const name of Object.keys(options.actions) as Array<keyof A>) {
+      actions[name] = this._bind(name);
+    }
+    this.actions = actions as BoundStoreActions<A>;
+  }
+
+  /**
+   * Gets the dispatched actions, from the oldest to the most recent.
+   */
+  public get log(): readonly StoreLogEntry<S>[] {
+    return this._log;
+  }
+
+  /**
+   * Runs an action of this store. Callbacks registered on the changed states are invoked once the action is done.
+   * @param name The name of the action to run.
+   * @param args The arguments to pass to the action.
+   * @returns Returns the value returned by the action.
+   * @example
+   * game.dispatch('buy', 'sword', 50);
+   * // Same as
+   * game.actions.buy('sword', 50);
+   */
+  public dispatch<K extends keyof A>(name: K, ...args: StoreActionArgs<A[K]>): StoreActionResult<A[K]> {
+    return this._dispatch(String(name), args) as StoreActionResult<A[K]>;
+  }
+
+  /**
+   * Adds a new callback to be invoked each time an action is dispatched.
+   * @param callback The function to call when an action is dispatched.
+   * @returns Returns a function that removes the callback when called.
+   * @example <caption>Log all the actions in the console</caption>
+   * game.onAction(({ action, args, before, after }) => {
+   *  console.log(action, args, before, after);
+   * });
+   */
+  public onAction(callback: StoreActionCallback<S>): () => void {
+    this._callbacks.push(callback);
+    return () => {
+      const index = this._callbacks.indexOf(callback);
+      if (index >= 0) {
+        this._callbacks.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Gets a copy of the current values of this store.
+   * @returns Returns the values of this store, indexed by name.
+   */
+  public snapshot(): S {
+    const values: Partial<S> = {};
+    for (const key of Object.keys(this._states) as Array<keyof S>) {
+      values[key] = copy(this._states[key].value);
+    }
+    return values as S;
+  }
+
+  /**
+   * Replaces the values of this store, without dispatching any action.
+   * @param snapshot The values to restore, as returned by {@link snapshot}. Missing values are left unchanged.
+   */
+  public restore(snapshot: Partial<S>): void {
+    batch(() => {
+      for (const key of Object.keys(snapshot) as Array<keyof S>) {
+        if (this._states[key]) {
+          this._states[key].value = copy(snapshot[key]) as S[keyof S];
+        }
+      }
+    });
+  }
+
+  /**
+   * Restores the values of this store as they were right after a logged action.
+   * @param index The index of the action in the log. Use -1 to restore the values before the first logged action.
+   * @returns Returns true if the values have been restored, or false if the index is not valid.
+   * @example
+   * // Go back to the state before the last action
+   * game.travelTo(game.log.length - 2);
+   */
+  public travelTo(index: number): boolean {
+    if (index < -1 || index >= this._log.length || this._log.length === 0) {
+      console.warn(`Failed to travel through store log: No action found at index ${index}.`);
+      return false;
+    }
+    this.restore(index === -1 ? this._log[0].before : this._log[index].after);
+    return true;
+  }
+
+  /**
+   * Restores the values before the first given action, then dispatches all the given actions again. The log is replaced by the
+   * replayed actions. Actions that don't exist in this store anymore (e.g. from a log saved with an older version) are skipped.
+   * @param entries The actions to replay. Defaults to the current log.
+   * @example <caption>Replay actions recorded in a previous session</caption>
+   * game.replay(facile.load('game-log', []));
+   */
+  public replay(entries: readonly StoreLogEntry<S>[] = this._log): void {
+    entries = [...entries];
+    if (entries.length === 0) {
+      return;
+    }
+
+    this.restore(entries[0].before);
+    this._log = [];
+    for (const entry of entries) {
+      // The entries may come from an older version of the store, where the action existed
+      if (!Object.hasOwn(this._actions, entry.action)) {
+        console.warn(`Skipped store action "${entry.action}" while replaying: No action found for that name.`);
+        continue;
+      }
+      this._dispatch(entry.action, Array.isArray(entry.args) ? entry.args : []);
+    }
+  }
+
+  /**
+   * Removes all the logged actions.
+   */
+  public clearLog(): void {
+    this._log = [];
+  }
+
+  /**
+   * Creates a function that dispatches an action of this store.
+   * @param name The name of the action.
+   * @returns Returns the bound action.
+   */
+  private _bind<K extends keyof A>(name: K): BoundStoreActions<A>[K] {
+    return (...args: StoreActionArgs<A[K]>) => this.dispatch(name, ...args);
+  }
+
+  /**
+   * Runs an action of this store, without checking the types of its arguments.
+   * @param name The name of the action to run.
+   * @param args The arguments to pass to the action.
+   * @returns Returns the value returned by the action, or undefined if the action doesn't exist.
+   */
+  private _dispatch(name: string, args: unknown[]): unknown {
+    const action = Object.hasOwn(this._actions, name) ? this._actions[name] : null;
+    if (!action) {
+      console.warn(`Failed to dispatch store action: No action found for name "${name}".`);
+      return undefined;
+    }
+
+    const before = this.snapshot();
+    const result = batch(() => action(this._states, ...args));
+    const entry: StoreLogEntry<S> = {
+      action: name,
+      args,
+      before,
+      after: this.snapshot(),
+      time: Date.now()
+    };
+
+    this._log.push(entry);
+    if (this._log.length > this._logSize) {
+      this._log.shift();
+    }
+
+    for (const callback of [...this._callbacks]) {
+      try {
+        callback(entry);
+      }
+      catch (error) {
+        console.error(error);
+        console.warn('Failed to invoke a listener on store action. See previous error for more info.');
+      }
+    }
+    return result;
+  }
+
+}
+
+/**
+ * Creates a store, a group of related states which can only be changed through named actions.
+ * @param options Options for creating the store, including its initial values and actions.
+ * @returns Returns the created store.
+ * @example
+ * const game = facile.store({
+ *  state: {
+ *    gold: 100,
+ *    inventory: new Array<string>()
+ *  },
+ *  actions: {
+ *    buy(state, item: string, price: number) {
+ *      state.gold.value -= price;
+ *      state.inventory.value = [...state.inventory.value, item];
+ *    }
+ *  }
+ * });
+ * game.state.gold.onChange((gold) => facile.write('#gold', gold));
+ * game.actions.buy('sword', 50);
+ * console.log(game.log); // [{ action: 'buy', args: ['sword', 50], before: {...}, after: {...} }]
+ */
+export function store<S extends Record<string, any>, A extends StoreActions<S>>(options: StoreOptions<S, A>) {
+  return new Store(options);
+}
+
+/**
+ * Copies a value, so snapshots are not affected by later changes made in place.
+ * @param value The value to copy.
+ * @returns Returns a deep copy of the value, or the value itself if it can't be copied (e.g. functions).
+ */
+function copy<T>(value: T): T {
+  try {
+    return structuredClone(value);
+  }
+  catch {
+    return value;
+  }
+}
\ No newline at end of file
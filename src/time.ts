@@ -3,31 +3,486 @@
  * @module Time
  */
 
+import { batch, State } from './state';
+
 /**
  * Repsesents a callback used for a timer.
  */
 export type TimerCallback = () => void;
 
 /**
- * Groups the name given to a timer and its unique identifier.
+ * Represents a day of the week.
+ */
+export type Weekday = 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday';
+
+/**
+ * Represents a duration: a number of milliseconds, or a string like `'1m30s'` (see {@link parseDuration|parseDuration()}).
+ */
+export type Duration = number | string;
+
+/**
+ * Represents a date, as a `Date` object, a timestamp in milliseconds, or a string that can be parsed by `new Date()`.
+ */
+export type DateInput = Date | number | string;
+
+/**
+ * The units that can be used in duration strings, with their value in milliseconds.
+ */
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  sec: 1000,
+  m: 60000,
+  min: 60000,
+  h: 3600000,
+  d: 86400000,
+  w: 604800000
+};
+
+/**
+ * The units used to format durations, from the largest to the smallest.
+ */
+const FORMAT_UNITS: Array<[Intl.RelativeTimeFormatUnit | 'millisecond', number]> = [
+  ['day', 86400000],
+  ['hour', 3600000],
+  ['minute', 60000],
+  ['second', 1000],
+  ['millisecond', 1]
+];
+
+/**
+ * The units used to format relative times, with the duration from which they're used.
+ */
+const RELATIVE_UNITS: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+  ['year', 365 * 86400000],
+  ['month', 30 * 86400000],
+  ['week', 7 * 86400000],
+  ['day', 86400000],
+  ['hour', 3600000],
+  ['minute', 60000],
+  ['second', 1000]
+];
+
+/**
+ * Options for formatting a duration with {@link formatDuration|formatDuration()}.
+ */
+export interface DurationFormatOptions {
+  /**
+   * The locale to use, e.g. `'fr-FR'`. Defaults to the locale of the browser.
+   */
+  locale?: string | string[];
+  /**
+   * The length of the unit names: `'narrow'` (e.g. "1h 30m"), `'short'` (e.g. "1 hr, 30 min") or `'long'` (e.g. "1 hour, 30 minutes").
+   * Defaults to `'narrow'`.
+   */
+  style?: 'narrow' | 'short' | 'long';
+  /**
+   * The smallest unit to display. Defaults to `'second'`.
+   */
+  smallestUnit?: 'day' | 'hour' | 'minute' | 'second' | 'millisecond';
+  /**
+   * The maximum number of units to display, starting from the largest one. Units equal to zero are not displayed nor counted. By
+   * default, all units are displayed.
+   */
+  maxUnits?: number;
+}
+
+/**
+ * Options for formatting a relative time with {@link formatRelativeTime|formatRelativeTime()}.
+ */
+export interface RelativeTimeFormatOptions {
+  /**
+   * The locale to use, e.g. `'fr-FR'`. Defaults to the locale of the browser.
+   */
+  locale?: string | string[];
+  /**
+   * The length of the message. Defaults to `'long'`.
+   */
+  style?: Intl.RelativeTimeFormatStyle;
+  /**
+   * If set to `'auto'`, uses phrases like "yesterday" or "now" instead of "1 day ago" or "in 0 seconds". Defaults to `'auto'`.
+   */
+  numeric?: Intl.RelativeTimeFormatNumeric;
+  /**
+   * The date from which the relative time is computed. Defaults to now.
+   */
+  now?: DateInput;
+}
+
+/**
+ * Options for creating a timer.
+ */
+export interface TimerOptions {
+  /**
+   * The group of the timer, so it can be paused and resumed along with other timers using
+   * {@link pauseTimerGroup|pauseTimerGroup()} and {@link resumeTimerGroup|resumeTimerGroup()}.
+   */
+  group?: string;
+  /**
+   * A signal that stops the timer when aborted. If it's already aborted, the timer is not created.
+   * @see {@link https://developer.mozilla.org/docs/Web/API/AbortSignal|MDN - AbortSignal}
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for waiting with {@link waitUntil|waitUntil()} or {@link waitForState|waitForState()}.
+ */
+export interface WaitOptions extends TimerOptions {
+  /**
+   * The maximum time to wait (in milliseconds, or as a duration string). Once elapsed, the promise is rejected with a `TimeoutError`.
+   */
+  timeout?: Duration;
+}
+
+/**
+ * Options for waiting with {@link waitUntil|waitUntil()}.
+ */
+export interface WaitUntilOptions extends WaitOptions {
+  /**
+   * The time between two checks of the condition, in milliseconds or as a duration string. Defaults to 50.
+   */
+  interval?: Duration;
+}
+
+/**
+ * Represents a function called on each frame of a loop.
+ * @param delta The time elapsed since the previous frame (in milliseconds), affected by the time scale.
+ */
+export type LoopCallback = (delta: number) => void;
+
+/**
+ * Represents a function called to draw a frame of a loop with a fixed timestep.
+ * @param delta The time elapsed since the previous frame (in milliseconds), affected by the time scale.
+ * @param alpha The progress towards the next update, between 0 and 1, used to interpolate what's drawn between two updates.
+ */
+export type LoopRenderCallback = (delta: number, alpha: number) => void;
+
+/**
+ * The functions called by a loop.
+ */
+export interface LoopCallbacks {
+  /**
+   * The function that updates the game. If the `fixedStep` option is defined, it's called as many times as needed to catch up with
+   * the elapsed time, always with the same delta.
+   */
+  update?: LoopCallback;
+  /**
+   * The function that draws the game, called once per frame after the updates.
+   */
+  render?: LoopRenderCallback;
+}
+
+/**
+ * Options for creating a loop.
+ */
+export interface LoopOptions extends TimerOptions {
+  /**
+   * If defined, the `update()` function is called with this fixed delta (in milliseconds), independently of the frame rate. Useful for
+   * physics or deterministic game logic.
+   */
+  fixedStep?: number;
+  /**
+   * The maximum time elapsed between two frames (in milliseconds), so the loop doesn't try to catch up after a long freeze. Defaults to
+   * 250.
+   */
+  maxDelta?: number;
+  /**
+   * If enabled, the loop is paused while the page is hidden (e.g. in a background tab). Enabled by default.
+   */
+  pauseWhenHidden?: boolean;
+}
+
+/**
+ * The kinds of timers in the registry.
+ */
+export type TimerType = 'timeout' | 'interval' | 'loop' | 'schedule' | 'debounce' | 'throttle' | 'rateLimit';
+
+/**
+ * Represents the details of an active timer, as returned by {@link listTimers|listTimers()}.
+ */
+export interface TimerInfo {
+  /**
+   * The unique identifier of the timer.
+   */
+  id: number;
+  /**
+   * The name of the timer, if any.
+   */
+  name?: string;
+  /**
+   * The group of the timer, if any.
+   */
+  group?: string;
+  /**
+   * The kind of timer.
+   */
+  type: TimerType;
+  /**
+   * The delay or interval of the timer in milliseconds, or null for loops and schedules.
+   */
+  interval: number | null;
+  /**
+   * The estimated date of the next call, or null if the timer is a loop or doesn't tick (paused or frozen by the time scale).
+   */
+  nextRun: Date | null;
+  /**
+   * Defines if the timer is paused, by itself, by its group or because all the timers are paused.
+   */
+  paused: boolean;
+  /**
+   * The stack trace of the code that created the timer, useful to find the origin of a duplicate timer. It's only captured when the
+   * timer is created with the name of another active timer, since capturing it on each timer would be costly.
+   */
+  stack?: string;
+}
+
+/**
+ * Represents a callback scheduled by a {@link VirtualClock}.
+ */
+interface VirtualTask {
+  handle: number;
+  /**
+   * The virtual time of the call, in milliseconds.
+   */
+  time: number;
+  callback: (time: number) => void;
+}
+
+/**
+ * Groups the progress of a timer created with {@link doAt|doAt()} or a recurring schedule.
+ */
+interface ScheduleProgress {
+  /**
+   * Gets the date of the next call after a given date, or null if there's no other call.
+   */
+  next: (after: number) => number | null;
+  /**
+   * The date of the next call, as a timestamp in milliseconds.
+   */
+  target: number | null;
+}
+
+/**
+ * Represents the values allowed by each field of a cron expression.
+ */
+interface CronFields {
+  seconds: Set<number>;
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /**
+   * Defines if the days of month are restricted (not `*`).
+   */
+  daysRestricted: boolean;
+  /**
+   * Defines if the days of week are restricted (not `*`).
+   */
+  weekdaysRestricted: boolean;
+}
+
+/**
+ * Groups the progress of a loop created with {@link doEachFrame|doEachFrame()}.
+ */
+interface LoopProgress {
+  callbacks: LoopCallbacks;
+  fixedStep?: number;
+  maxDelta: number;
+  pauseWhenHidden: boolean;
+  /**
+   * If defined, frames are scheduled at this interval (in milliseconds) instead of before each repaint. Used internally by stopwatches
+   * and countdowns, which must not lose the time elapsed since their last frame when paused.
+   */
+  interval?: number;
+  /**
+   * The time of the previous frame, or null if the loop has just been started or resumed.
+   */
+  lastTime: number | null;
+  /**
+   * The elapsed time not consumed by fixed updates yet.
+   */
+  accumulator: number;
+  fps: number;
+  /**
+   * The number of frames since the FPS has been measured.
+   */
+  frames: number;
+  /**
+   * The time when the FPS has been measured.
+   */
+  fpsTime: number;
+}
+
+/**
+ * Groups the name given to a timer, its unique identifier and its progress.
  */
-interface TimerId {
+interface TimerEntry {
   name?: string;
   id: number;
-  jsId: number;
-  isTimeout: boolean;
+  group?: string;
+  type: TimerType;
+  /**
+   * The stack trace of the code that created the timer, if it has been created with the name of another active timer.
+   */
+  stack?: string;
+  /**
+   * The delay or interval of the timer, in milliseconds.
+   */
+  ms: number;
+  callback: TimerCallback;
+  /**
+   * The identifier of the native timeout or animation frame request, or null if the timer is not ticking (paused or frozen by the time
+   * scale).
+   */
+  jsId: SchedulerHandle | null;
+  /**
+   * The time left before the next call (in milliseconds, unscaled), as of the last time the native timeout has been started.
+   */
+  remaining: number;
+  /**
+   * The time when the native timeout has been started, in milliseconds.
+   */
+  startedAt: number;
+  /**
+   * Defines if the timer has been paused with {@link pauseTimer|pauseTimer()}.
+   */
+  paused: boolean;
+  /**
+   * The progress of the loop, if the timer is a loop.
+   */
+  loop?: LoopProgress;
+  /**
+   * The progress of the schedule, if the timer is called at given dates.
+   */
+  schedule?: ScheduleProgress;
+  /**
+   * Removes the listener on the abort signal, if the `signal` option is used.
+   */
+  dispose?: () => void;
+}
+
+/**
+ * Represents the identifier of a callback scheduled by a {@link Scheduler}.
+ */
+type SchedulerHandle = ReturnType<typeof setTimeout> | number;
+
+/**
+ * Represents the clock that drives the timers: the real one, or a {@link VirtualClock}.
+ */
+interface Scheduler {
+  /**
+   * Gets the current time, in milliseconds.
+   */
+  now(): number;
+  /**
+   * Gets the current date, as a timestamp in milliseconds.
+   */
+  date(): number;
+  setTimeout(callback: () => void, ms: number): SchedulerHandle;
+  clearTimeout(handle: SchedulerHandle): void;
+  /**
+   * Schedules a callback for the next frame, which receives the time of that frame.
+   */
+  requestFrame(callback: (time: number) => void): SchedulerHandle;
+  cancelFrame(handle: SchedulerHandle): void;
 }
 
+/**
+ * The scheduler based on the native timers of the browser.
+ */
+const realScheduler: Scheduler = {
+  now: () => performance.now(),
+  date: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle),
+  requestFrame: callback => requestAnimationFrame(callback),
+  cancelFrame: handle => cancelAnimationFrame(handle as number)
+};
+
+/**
+ * The scheduler currently driving the timers.
+ */
+let scheduler = realScheduler;
+
 /**
  * The list of all the timers started from this utility.
  */
-const activeTimers = new Array<TimerId>();
+const activeTimers = new Array<TimerEntry>();
 let latestId = 0;
 
+/**
+ * Defines if all the timers are paused, using {@link pauseAllTimers|pauseAllTimers()}.
+ */
+let allPaused = false;
+
+/**
+ * The timer groups paused using {@link pauseTimerGroup|pauseTimerGroup()}.
+ */
+const pausedGroups = new Set<string>();
+
+/**
+ * The speed at which time passes for all the timers.
+ */
+let timeScale = 1;
+
+/**
+ * The default maximum time elapsed between two frames of a loop.
+ */
+const DEFAULT_MAX_DELTA = 250;
+
+/**
+ * Defines if loops are notified when the page visibility changes.
+ */
+let watchingVisibility = false;
+
+/**
+ * The default time between two checks of the condition of {@link waitUntil|waitUntil()}.
+ */
+const DEFAULT_WAIT_INTERVAL = 50;
+
+/**
+ * The time between two frames of a loop, when driven by a {@link VirtualClock}.
+ */
+const VIRTUAL_FRAME_DURATION = 1000 / 60;
+
+/**
+ * The default time between two updates of stopwatches and countdowns.
+ */
+const DEFAULT_TICKER_INTERVAL = 10;
+
+/**
+ * The maximum time between two checks of the clock by the timers scheduled at given dates, so they're not affected by the limit of
+ * native timers (about 24.8 days), and they follow the changes of the device clock.
+ */
+const MAX_SCHEDULE_CHECK_INTERVAL = 60000;
+
+/**
+ * The days of the week, starting from Sunday.
+ */
+const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * The short names of the months that can be used in cron expressions.
+ */
+const CRON_MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * The short names of the days of week that can be used in cron expressions.
+ */
+const CRON_WEEKDAYS = WEEKDAYS.map(day => day.slice(0, 3));
+
+/**
+ * How far the next date matching a cron expression is searched, in milliseconds (about 5 years).
+ */
+const MAX_CRON_SEARCH = 5 * 366 * 86400000;
+
 /**
  * Repeats a given function by a given time interval (in milliseconds).
- * @param ms The time interval, in milliseconds.
+ * @param ms The time interval, in milliseconds or as a duration string (see {@link parseDuration|parseDuration()}).
  * @param callback The function to repeat.
+ * @param options Options for creating the timer.
  * @returns Returns a unique identifier for the created timer, so you can stop it using {@link stopTimer|stopTimer()}.
  * @see {@link https://developer.mozilla.org/docs/Web/API/Window/setInterval|MDN - Window.setInterval()}
  * @example <caption>Log a message in console every second</caption>
@@ -35,64 +490,66 @@ let latestId = 0;
  *  console.log('Hey!');
  * });
  */
-export function doEvery(ms: number, callback: TimerCallback): number;
+export function doEvery(ms: Duration, callback: TimerCallback, options?: TimerOptions): number;
 
 /**
  * Repeats a given function by a given time interval (in milliseconds).
- * @param ms The time interval, in milliseconds.
+ * @param ms The time interval, in milliseconds or as a duration string (see {@link parseDuration|parseDuration()}).
  * @param name The time of the timer to create, so you can identify it easily.
  * @param callback The function to repeat.
+ * @param options Options for creating the timer.
  * @returns Returns a unique identifier for the created timer, so you can stop it using {@link stopTimer|stopTimer()}, by name or by this id.
  * @see {@link https://developer.mozilla.org/docs/Web/API/Window/setInterval|MDN - Window.setInterval()}
- * @see {@link https://developer.mozilla.org/docs/Web/API/Window/setInterval|MDN - Window.setInterval()}
  * @example <caption>Log a message in console every second</caption>
  * facile.doEvery(1000, 'heyTimer', () => {
  *  console.log('Hey!');
  * });
+ * @example <caption>Spawn an enemy every 5 seconds, except when the game is paused</caption>
+ * facile.doEvery(5000, 'spawn', spawnEnemy, { group: 'gameplay' });
+ * facile.onClick('#pause', () => facile.pauseTimerGroup('gameplay'));
  */
-export function doEvery(ms: number, name: string, callback: TimerCallback): number;
+export function doEvery(ms: Duration, name: string, callback: TimerCallback, options?: TimerOptions): number;
 
-export function doEvery(ms: number, name: string | TimerCallback, callback?: TimerCallback): number {
-  ms = Math.abs(Math.floor(ms));
-  if (ms <= 0) {
-    console.warn('Failed to create timer: the interval must not be equal to 0.');
+export function doEvery(ms: Duration, name: string | TimerCallback, callback?: TimerCallback | TimerOptions, options?: TimerOptions): number {
+  ms = Math.abs(Math.floor(parseDuration(ms)));
+  if (!(ms > 0)) {
+    console.warn('Failed to create timer: the interval must be a valid duration, not equal to 0.');
     return -1;
   }
 
   if (typeof name === 'function') {
+    options = callback as TimerOptions | undefined;
     callback = name;
     name = '';
   }
 
-  const timerId: TimerId = {
-    name: name || undefined,
-    id: ++latestId,
-    jsId: setInterval(callback as TimerHandler, ms),
-    isTimeout: false
-  };
-
-  activeTimers.push(timerId);
-  return timerId.id;
+  return addTimer('interval', ms as number, name, callback as TimerCallback, options);
 }
 
 /**
  * Calls a given function after a given delay (in milliseconds).
- * @param ms The delay, in milliseconds.
+ * @param ms The delay, in milliseconds or as a duration string (see {@link parseDuration|parseDuration()}).
  * @param callback The function to call.
+ * @param options Options for creating the timer.
  * @returns Returns a unique identifier for the created timer, so you can stop it using {@link stopTimer|stopTimer()}.
  * @see {@link https://developer.mozilla.org/docs/Web/API/Window/setTimeout|MDN - Window.setTimeout()}
  * @example <caption>Wait 1 second and log a message in console</caption>
  * facile.doAfter(1000, () => {
  *  console.log('Hey!');
  * });
+ * @example <caption>Use a duration string</caption>
+ * facile.doAfter('1m30s', () => {
+ *  facile.say('Time is up!');
+ * });
  */
-export function doAfter(ms: number, callback: TimerCallback): number;
+export function doAfter(ms: Duration, callback: TimerCallback, options?: TimerOptions): number;
 
 /**
  * Calls a given function after a given delay (in milliseconds).
- * @param ms The delay, in milliseconds.
+ * @param ms The delay, in milliseconds or as a duration string (see {@link parseDuration|parseDuration()}).
  * @param name The time of the timer to create, so you can identify it easily.
  * @param callback The function to call.
+ * @param options Options for creating the timer.
  * @returns Returns a unique identifier for the created timer, so you can stop it using {@link stopTimer|stopTimer()}, by name or by that id.
  * @see {@link https://developer.mozilla.org/docs/Web/API/Window/setTimeout|MDN - Window.setTimeout()}
  * @example <caption>Wait 1 second and log a message in console</caption>
@@ -100,117 +557,2413 @@ export function doAfter(ms: number, callback: TimerCallback): number;
  *  console.log('Hey!');
  * });
  */
-export function doAfter(ms: number, name: string, callback: TimerCallback): number;
+export function doAfter(ms: Duration, name: string, callback: TimerCallback, options?: TimerOptions): number;
 
-export function doAfter(ms: number, name: string | TimerCallback, callback?: TimerCallback): number {
+export function doAfter(ms: Duration, name: string | TimerCallback, callback?: TimerCallback | TimerOptions, options?: TimerOptions): number {
   // Fix ms param
-  ms = Math.abs(Math.floor(ms));
-  if (ms <= 0) {
-    console.warn('Failed to create timer: the delay must not be equal to 0.');
+  ms = Math.abs(Math.floor(parseDuration(ms)));
+  if (!(ms > 0)) {
+    console.warn('Failed to create timer: the delay must be a valid duration, not equal to 0.');
     return -1;
   }
 
   // Fix name and callback params
   if (typeof name === 'function') {
+    options = callback as TimerOptions | undefined;
     callback = name;
     name = '';
   }
 
-  // Create the timer
-  const id = setTimeout(() => {
-    try {
-      (callback as Function)();
-    }
-    finally {
-      // Remove the timer from the active timers list
-      const index = activeTimers.findIndex(i => i.id === id);
-      if (index >= 0) {
-        activeTimers.splice(index, 1);
-      }
-    }
-  }, ms);
+  return addTimer('timeout', ms as number, name, callback as TimerCallback, options);
+}
 
-  // Create active timer entry
-  activeTimers.push({
-    name: name || undefined,
-    jsId: id,
-    id: ++latestId,
-    isTimeout: true
-  });
+/**
+ * Calls a given function on each frame, before the browser repaints the page.
+ * The loop is registered as a timer, so it can be stopped, paused and resumed like the others, and is affected by the time scale.
+ * @param callback The function to call on each frame, or an object defining `update()` and `render()` functions.
+ * @param options Options for creating the loop.
+ * @returns Returns a unique identifier for the created loop, so you can stop it using {@link stopTimer|stopTimer()}.
+ * @see {@link https://developer.mozilla.org/docs/Web/API/Window/requestAnimationFrame|MDN - Window.requestAnimationFrame()}
+ * @example <caption>Move a character at 100 pixels per second, whatever the frame rate</caption>
+ * facile.doEachFrame((delta) => {
+ *  player.x += 100 * delta / 1000;
+ * });
+ */
+export function doEachFrame(callback: LoopCallback | LoopCallbacks, options?: LoopOptions): number;
+
+/**
+ * Calls a given function on each frame, before the browser repaints the page.
+ * The loop is registered as a timer, so it can be stopped, paused and resumed like the others, and is affected by the time scale.
+ * @param name The name of the loop to create, so you can identify it easily.
+ * @param callback The function to call on each frame, or an object defining `update()` and `render()` functions.
+ * @param options Options for creating the loop.
+ * @returns Returns a unique identifier for the created loop, so you can stop it using {@link stopTimer|stopTimer()}, by name or by
+ * that id.
+ * @see {@link https://developer.mozilla.org/docs/Web/API/Window/requestAnimationFrame|MDN - Window.requestAnimationFrame()}
+ * @example <caption>Update physics 60 times per second, and draw as often as possible</caption>
+ * facile.doEachFrame('game', {
+ *  update: (delta) => world.step(delta),
+ *  render: (delta, alpha) => world.draw(alpha)
+ * }, { fixedStep: 1000 / 60 });
+ * facile.doEvery(1000, () => facile.write('#fps', facile.getFps('game')));
+ */
+export function doEachFrame(name: string, callback: LoopCallback | LoopCallbacks, options?: LoopOptions): number;
+
+export function doEachFrame(name: string | LoopCallback | LoopCallbacks, callback?: LoopCallback | LoopCallbacks | LoopOptions, options?: LoopOptions): number {
+  if (scheduler === realScheduler && typeof requestAnimationFrame === 'undefined') {
+    console.warn('Failed to create loop: requestAnimationFrame() is not supported in this environment.');
+    return -1;
+  }
+
+  // Fix name and callback params
+  if (typeof name !== 'string') {
+    options = callback as LoopOptions | undefined;
+    callback = name;
+    name = '';
+  }
+
+  if (options?.fixedStep !== undefined && !(options.fixedStep > 0)) {
+    console.warn('Failed to create loop: the fixed step must be greater than 0.');
+    return -1;
+  }
+
+  const loop: LoopProgress = {
+    callbacks: typeof callback === 'function' ? { update: callback } : callback as LoopCallbacks,
+    fixedStep: options?.fixedStep,
+    maxDelta: options?.maxDelta ?? DEFAULT_MAX_DELTA,
+    pauseWhenHidden: options?.pauseWhenHidden ?? true,
+    lastTime: null,
+    accumulator: 0,
+    fps: 0,
+    frames: 0,
+    fpsTime: 0
+  };
+
+  if (loop.pauseWhenHidden && !watchingVisibility && typeof document !== 'undefined') {
+    watchingVisibility = true;
+    document.addEventListener('visibilitychange', updateAllTimers);
+  }
 
-  return id;
+  return addTimer('loop', 0, name, () => {}, options, loop);
 }
 
 /**
- * Stops a named timer.
- * @param name The name of the timer to stop.
- * @returns Returns true if the named timer has been stopped successfully, or false if it doesn't exist or was already stopped.
- * @see {@link https://developer.mozilla.org/docs/Web/API/Window/clearInterval|MDN - Window.clearInterval()}
- * @see {@link https://developer.mozilla.org/docs/Web/API/Window/clearTimeout|MDN - Window.clearTimeout()}
- * @example <caption>Start a named timer, then stop it</caption>
- * facile.doEvery(1000, 'heyTimer', () => {
- *  console.log('Hey!');
+ * Gets the number of frames per second of a named loop, measured over the last second.
+ * @param name The name of the loop.
+ * @returns Returns the frame rate of the loop, or 0 if it doesn't exist or has just started.
+ */
+export function getFps(name: string): number;
+
+/**
+ * Gets the number of frames per second of a loop, measured over the last second.
+ * @param id The unique identifier of the loop.
+ * @returns Returns the frame rate of the loop, or 0 if it doesn't exist or has just started.
+ */
+export function getFps(id: number): number;
+
+export function getFps(id: string|number): number {
+  const timer = findTimer(id);
+  if (!timer?.loop) {
+    console.warn(`Failed to get FPS: No loop found for id "${id}".`);
+    return 0;
+  }
+  return timer.loop.fps;
+}
+
+/**
+ * Calls a given function at a given date and time, according to the clock of the device.
+ * Unlike {@link doAfter|doAfter()}, the timer is not affected by the time scale, and supports dates far in the future. If the device
+ * was asleep at that time, the function is called as soon as possible.
+ * @param date The date when the function must be called. If it's in the past, the function is called as soon as possible.
+ * @param callback The function to call.
+ * @param options Options for creating the timer.
+ * @returns Returns a unique identifier for the created timer, so you can stop it using {@link stopTimer|stopTimer()}.
+ * @example
+ * facile.doAt('2024-12-25T00:00', () => {
+ *  facile.say('Merry Christmas!');
  * });
- * facile.stop('heyTimer');
  */
-export function stopTimer(name: string): boolean;
+export function doAt(date: DateInput, callback: TimerCallback, options?: TimerOptions): number;
 
 /**
- * Stops a timer.
- * @param id The unique identifier of the timer.
- * @returns Returns true if the timer has been stopped successfully, or false if it doesn't exist or was already stopped.
- * @see {@link https://developer.mozilla.org/docs/Web/API/Window/clearInterval|MDN - Window.clearInterval()}
- * @see {@link https://developer.mozilla.org/docs/Web/API/Window/clearTimeout|MDN - Window.clearTimeout()}
- * @example <caption>Start a timer, then stop it</caption>
- * const heyTimerId = facile.doEvery(1000, () => {
- *  console.log('Hey!');
+ * Calls a given function at a given date and time, according to the clock of the device.
+ * Unlike {@link doAfter|doAfter()}, the timer is not affected by the time scale, and supports dates far in the future. If the device
+ * was asleep at that time, the function is called as soon as possible.
+ * @param date The date when the function must be called. If it's in the past, the function is called as soon as possible.
+ * @param name The name of the timer to create, so you can identify it easily.
+ * @param callback The function to call.
+ * @param options Options for creating the timer.
+ * @returns Returns a unique identifier for the created timer, so you can stop it using {@link stopTimer|stopTimer()}, by name or by
+ * that id.
+ */
+export function doAt(date: DateInput, name: string, callback: TimerCallback, options?: TimerOptions): number;
+
+export function doAt(date: DateInput, name: string | TimerCallback, callback?: TimerCallback | TimerOptions, options?: TimerOptions): number {
+  const time = toDate(date).getTime();
+  if (Number.isNaN(time)) {
+    console.warn(`Failed to create timer: "${date}" is not a valid date.`);
+    return -1;
+  }
+
+  let done = false;
+  return addSchedule(() => {
+    if (done) {
+      return null;
+    }
+    done = true;
+    return time;
+  }, name, callback, options);
+}
+
+/**
+ * Calls a given function every day at a given time, according to the clock of the device.
+ * If the device was asleep at that time, the function is called once as soon as possible.
+ * @param time The time of day, formatted as `HH:mm` or `HH:mm:ss` (24-hour clock).
+ * @param callback The function to call.
+ * @param options Options for creating the timer.
+ * @returns Returns a unique identifier for the created timer, so you can stop it using {@link stopTimer|stopTimer()}.
+ * @example <caption>Refresh the daily quests at 8 AM</caption>
+ * facile.doDaily('08:00', () => {
+ *  refreshQuests();
  * });
- * facile.stop(heyTimerId);
  */
-export function stopTimer(id: number): boolean
+export function doDaily(time: string, callback: TimerCallback, options?: TimerOptions): number;
 
-export function stopTimer(id: string|number): boolean {
-  // Try find timer in active timers list
-  let index = typeof id === 'string'
-    ? activeTimers.findIndex(i => i.name === id)
-    : activeTimers.findIndex(i => i.id === id);
+/**
+ * Calls a given function every day at a given time, according to the clock of the device.
+ * If the device was asleep at that time, the function is called once as soon as possible.
+ * @param time The time of day, formatted as `HH:mm` or `HH:mm:ss` (24-hour clock).
+ * @param name The name of the timer to create, so you can identify it easily.
+ * @param callback The function to call.
+ * @param options Options for creating the timer.
+ * @returns Returns a unique identifier for the created timer, so you can stop it using {@link stopTimer|stopTimer()}, by name or by
+ * that id.
+ */
+export function doDaily(time: string, name: string, callback: TimerCallback, options?: TimerOptions): number;
 
-  // Cancel if timer doesn't exist
-  if (index < 0) {
-    console.warn(`Failed to stop a timer: No timer found for id "${id}".`);
-    return false;
+export function doDaily(time: string, name: string | TimerCallback, callback?: TimerCallback | TimerOptions, options?: TimerOptions): number {
+  const parts = parseTimeOfDay(time);
+  if (!parts) {
+    return -1;
   }
+  return addCron(`${parts[2]} ${parts[1]} ${parts[0]} * * *`, name, callback, options);
+}
+
+/**
+ * Calls a given function every week on a given day and at a given time, according to the clock of the device.
+ * If the device was asleep at that time, the function is called once as soon as possible.
+ * @param day The day of the week, as a name or as a number (0 for Sunday to 6 for Saturday).
+ * @param time The time of day, formatted as `HH:mm` or `HH:mm:ss` (24-hour clock).
+ * @param callback The function to call.
+ * @param options Options for creating the timer.
+ * @returns Returns a unique identifier for the created timer, so you can stop it using {@link stopTimer|stopTimer()}.
+ * @example
+ * facile.doWeekly('monday', '00:00', () => {
+ *  resetWeeklyLeaderboard();
+ * });
+ */
+export function doWeekly(day: Weekday | number, time: string, callback: TimerCallback, options?: TimerOptions): number;
 
-  // Stop the timer
-  if (activeTimers[index].isTimeout) {
-    clearTimeout(activeTimers[index].jsId);
+/**
+ * Calls a given function every week on a given day and at a given time, according to the clock of the device.
+ * If the device was asleep at that time, the function is called once as soon as possible.
+ * @param day The day of the week, as a name or as a number (0 for Sunday to 6 for Saturday).
+ * @param time The time of day, formatted as `HH:mm` or `HH:mm:ss` (24-hour clock).
+ * @param name The name of the timer to create, so you can identify it easily.
+ * @param callback The function to call.
+ * @param options Options for creating the timer.
+ * @returns Returns a unique identifier for the created timer, so you can stop it using {@link stopTimer|stopTimer()}, by name or by
+ * that id.
+ */
+export function doWeekly(day: Weekday | number, time: string, name: string, callback: TimerCallback, options?: TimerOptions): number;
+
+export function doWeekly(day: Weekday | number, time: string, name: string | TimerCallback, callback?: TimerCallback | TimerOptions, options?: TimerOptions): number {
+  const dayIndex = typeof day === 'number' ? day : WEEKDAYS.indexOf(day.toLowerCase() as Weekday);
+  if (!Number.isInteger(dayIndex) || dayIndex < 0 || dayIndex > 6) {
+    console.warn(`Failed to create timer: "${day}" is not a valid day of the week.`);
+    return -1;
   }
-  else {
-    clearInterval(activeTimers[index].jsId);
+  const parts = parseTimeOfDay(time);
+  if (!parts) {
+    return -1;
   }
-  // Remove the timer from active timers list
-  activeTimers.splice(index, 1);
-  return true;
+  return addCron(`${parts[2]} ${parts[1]} ${parts[0]} * * ${dayIndex}`, name, callback, options);
 }
 
 /**
- * Checks if a named timer is running.
- * @param name The name of the timer to check.
- * @returns Returns true if the timer exists and is running.
+ * Calls a given function according to a cron expression, using the clock of the device.
+ * The expression has 5 fields (minute, hour, day of month, month, day of week), or 6 fields if it starts with the seconds. Each field
+ * accepts `*`, numbers, ranges (`1-5`), steps (`0-59/15`) and lists (`1,15`). Months and days of week also accept names
+ * (`jan`, `mon`...), and Sunday is 0 or 7.
+ * If the device was asleep at a scheduled time, the function is called once as soon as possible.
+ * @param expression The cron expression.
+ * @param callback The function to call.
+ * @param options Options for creating the timer.
+ * @returns Returns a unique identifier for the created timer, so you can stop it using {@link stopTimer|stopTimer()}, or -1 if the
+ * expression is not valid.
+ * @see {@link https://en.wikipedia.org/wiki/Cron|Wikipedia - Cron}
+ * @example <caption>Start a happy hour every weekday at 6 PM</caption>
+ * facile.doCron('0 18 * * mon-fri', () => {
+ *  startHappyHour();
+ * });
  */
-export function isRunning(name: string): boolean;
+export function doCron(expression: string, callback: TimerCallback, options?: TimerOptions): number;
 
 /**
- * Checks if a timer is running.
- * @param id The unique identifier of the timer to check.
- * @returns Returns true if the named timer exists and is running.
+ * Calls a given function according to a cron expression, using the clock of the device.
+ * The expression has 5 fields (minute, hour, day of month, month, day of week), or 6 fields if it starts with the seconds. Each field
+ * accepts `*`, numbers, ranges (`1-5`), steps (`0-59/15`) and lists (`1,15`). Months and days of week also accept names
+ * (`jan`, `mon`...), and Sunday is 0 or 7.
+ * If the device was asleep at a scheduled time, the function is called once as soon as possible.
+ * @param expression The cron expression.
+ * @param name The name of the timer to create, so you can identify it easily.
+ * @param callback The function to call.
+ * @param options Options for creating the timer.
+ * @returns Returns a unique identifier for the created timer, so you can stop it using {@link stopTimer|stopTimer()}, by name or by
+ * that id, or -1 if the expression is not valid.
+ * @see {@link https://en.wikipedia.org/wiki/Cron|Wikipedia - Cron}
  */
-export function isRunning(id: number): boolean;
+export function doCron(expression: string, name: string, callback: TimerCallback, options?: TimerOptions): number;
 
-export function isRunning(id: string|number): boolean {
-  // Try find timer in active timers list
-  let index = typeof id === 'string'
-    ? activeTimers.findIndex(i => i.name === id)
-    : activeTimers.findIndex(i => i.id === id);
-  return index >= 0;
+export function doCron(expression: string, name: string | TimerCallback, callback?: TimerCallback | TimerOptions, options?: TimerOptions): number {
+  return addCron(expression, name, callback, options);
+}
+
+/**
+ * Gets the next date when a named timer created with {@link doAt|doAt()}, {@link doDaily|doDaily()}, {@link doWeekly|doWeekly()} or
+ * {@link doCron|doCron()} will call its function.
+ * @param name The name of the timer.
+ * @returns Returns the date of the next call, or null if the timer doesn't exist or is not scheduled at a given date.
+ * @example
+ * const nextReward = facile.getNextRun('daily-reward');
+ * facile.write('#reward', `Next reward ${facile.formatRelativeTime(nextReward)}`);
+ */
+export function getNextRun(name: string): Date | null;
+
+/**
+ * Gets the next date when a timer created with {@link doAt|doAt()}, {@link doDaily|doDaily()}, {@link doWeekly|doWeekly()} or
+ * {@link doCron|doCron()} will call its function.
+ * @param id The unique identifier of the timer.
+ * @returns Returns the date of the next call, or null if the timer doesn't exist or is not scheduled at a given date.
+ */
+export function getNextRun(id: number): Date | null;
+
+export function getNextRun(id: string|number): Date | null {
+  const target = findTimer(id)?.schedule?.target;
+  return target === undefined || target === null ? null : new Date(target);
+}
+
+/**
+ * Represents a function wrapped by {@link debounce|debounce()}, {@link throttle|throttle()} or {@link rateLimit|rateLimit()}. Its
+ * pending call is handled by a timer, which can also be stopped with {@link stopTimer|stopTimer()} or called immediately with
+ * {@link flushTimer|flushTimer()} if the wrapper is named.
+ */
+export interface LimitedFunction<A extends unknown[]> {
+  /**
+   * Calls the wrapped function, or delays or ignores the call depending on the wrapper.
+   */
+  (...args: A): void;
+  /**
+   * Defines if a call of the wrapped function is waiting.
+   */
+  readonly pending: boolean;
+  /**
+   * Calls the waiting call of the wrapped function immediately, if any.
+   */
+  flush(): void;
+  /**
+   * Cancels the waiting call of the wrapped function, if any, and resets the wrapper.
+   */
+  cancel(): void;
+}
+
+/**
+ * Options for creating a function with {@link debounce|debounce()}.
+ */
+export interface DebounceOptions extends TimerOptions {
+  /**
+   * Defines if the function is called at the first call of a burst. Defaults to false.
+   */
+  leading?: boolean;
+  /**
+   * Defines if the function is called after the last call of a burst. Defaults to true.
+   */
+  trailing?: boolean;
+  /**
+   * The maximum duration a call can be delayed while calls keep coming, as milliseconds or as a duration string.
+   */
+  maxWait?: Duration;
+}
+
+/**
+ * Options for creating a function with {@link throttle|throttle()}.
+ */
+export interface ThrottleOptions extends TimerOptions {
+  /**
+   * Defines if the function is called immediately when it's not throttled. Defaults to true.
+   */
+  leading?: boolean;
+  /**
+   * Defines if the last call made while throttled is called at the end of the interval. Defaults to true.
+   */
+  trailing?: boolean;
+}
+
+/**
+ * Options for creating a function with {@link rateLimit|rateLimit()}.
+ */
+export interface RateLimitOptions extends TimerOptions {
+  /**
+   * Defines if the calls over the limit are delayed to the next interval instead of being ignored. Defaults to false.
+   */
+  queue?: boolean;
+}
+
+/**
+ * Creates a function that delays the calls to a given function until it stops being called for a given duration.
+ * The pending call is handled by a timer, which follows the time scale and can be paused like other timers.
+ * @param ms The duration without calls to wait for, as milliseconds or as a duration string.
+ * @param callback The function to call.
+ * @param options Options for creating the timer.
+ * @returns Returns the debounced function.
+ * @example <caption>Search once the user stops typing</caption>
+ * const search = facile.debounce(300, (query: string) => fetchResults(query));
+ * query.onChange(search);
+ */
+export function debounce<A extends unknown[]>(ms: Duration, callback: (...args: A) => void, options?: DebounceOptions): LimitedFunction<A>;
+
+/**
+ * Creates a function that delays the calls to a given function until it stops being called for a given duration.
+ * The pending call is handled by a named timer, which follows the time scale and can be paused, stopped or flushed by name like other
+ * timers.
+ * @param ms The duration without calls to wait for, as milliseconds or as a duration string.
+ * @param name The name of the timer of the pending call.
+ * @param callback The function to call.
+ * @param options Options for creating the timer.
+ * @returns Returns the debounced function.
+ * @example <caption>Cancel a pending search when leaving the page</caption>
+ * query.onChange(facile.debounce(300, 'search', (query: string) => fetchResults(query)));
+ * facile.stopTimer('search');
+ */
+export function debounce<A extends unknown[]>(ms: Duration, name: string, callback: (...args: A) => void, options?: DebounceOptions): LimitedFunction<A>;
+
+export function debounce<A extends unknown[]>(ms: Duration, name: string | ((...args: A) => void), callback?: ((...args: A) => void) | DebounceOptions, options?: DebounceOptions): LimitedFunction<A> {
+  if (typeof name === 'function') {
+    options = callback as DebounceOptions | undefined;
+    callback = name;
+    name = '';
+  }
+  const fn = callback as (...args: A) => void;
+  const timerName = name;
+  const delay = Math.max(parseDuration(ms), 0) || 0;
+  const maxWait = options?.maxWait !== undefined ? Math.max(parseDuration(options.maxWait), delay) : Infinity;
+  const leading = options?.leading ?? false;
+  const trailing = options?.trailing ?? true;
+
+  let timerId = -1;
+  let pendingArgs: A | null = null;
+  let burstStart = 0;
+  let lastCall = -Infinity;
+
+  const onTimeout = () => {
+    const args = pendingArgs;
+    pendingArgs = null;
+    if (args) {
+      fn(...args);
+    }
+  };
+
+  return createLimitedFunction((...args: A) => {
+    if (options?.signal?.aborted) {
+      return;
+    }
+
+    const now = scheduler.now();
+    // A burst stopped only by the maximum wait goes on, so its next call is not a leading one
+    const quiet = now - lastCall >= delay;
+    lastCall = now;
+    if (!isRunning(timerId)) {
+      burstStart = now;
+      pendingArgs = null;
+      if (leading && quiet) {
+        fn(...args);
+      }
+      else if (trailing) {
+        pendingArgs = args;
+      }
+    }
+    else if (trailing) {
+      pendingArgs = args;
+    }
+
+    stopIfRunning(timerId);
+    const wait = Math.min(delay, Math.max(burstStart + maxWait - now, 0));
+    timerId = addTimer('debounce', wait, timerName, onTimeout, options);
+  }, () => timerId, () => pendingArgs !== null, () => pendingArgs = null);
+}
+
+/**
+ * Creates a function that calls a given function at most once per interval.
+ * The interval is handled by a timer, which follows the time scale and can be paused like other timers.
+ * @param ms The minimum interval between two calls, as milliseconds or as a duration string.
+ * @param callback The function to call.
+ * @param options Options for creating the timer.
+ * @returns Returns the throttled function.
+ * @example <caption>Update a progress bar at most 10 times per second while scrolling</caption>
+ * window.addEventListener('scroll', facile.throttle(100, () => updateProgress()));
+ */
+export function throttle<A extends unknown[]>(ms: Duration, callback: (...args: A) => void, options?: ThrottleOptions): LimitedFunction<A>;
+
+/**
+ * Creates a function that calls a given function at most once per interval.
+ * The interval is handled by a named timer, which follows the time scale and can be paused, stopped or flushed by name like other
+ * timers.
+ * @param ms The minimum interval between two calls, as milliseconds or as a duration string.
+ * @param name The name of the timer of the interval.
+ * @param callback The function to call.
+ * @param options Options for creating the timer.
+ * @returns Returns the throttled function.
+ */
+export function throttle<A extends unknown[]>(ms: Duration, name: string, callback: (...args: A) => void, options?: ThrottleOptions): LimitedFunction<A>;
+
+export function throttle<A extends unknown[]>(ms: Duration, name: string | ((...args: A) => void), callback?: ((...args: A) => void) | ThrottleOptions, options?: ThrottleOptions): LimitedFunction<A> {
+  if (typeof name === 'function') {
+    options = callback as ThrottleOptions | undefined;
+    callback = name;
+    name = '';
+  }
+  const fn = callback as (...args: A) => void;
+  const timerName = name;
+  const interval = Math.max(parseDuration(ms), 0) || 0;
+  const leading = options?.leading ?? true;
+  const trailing = options?.trailing ?? true;
+
+  let timerId = -1;
+  let pendingArgs: A | null = null;
+
+  const onIntervalEnd = () => {
+    const args = pendingArgs;
+    pendingArgs = null;
+    if (args) {
+      // The trailing call starts a new interval, so it's throttled too
+      timerId = addTimer('throttle', interval, timerName, onIntervalEnd, options);
+      fn(...args);
+    }
+  };
+
+  return createLimitedFunction((...args: A) => {
+    if (options?.signal?.aborted) {
+      return;
+    }
+
+    if (isRunning(timerId)) {
+      if (trailing) {
+        pendingArgs = args;
+      }
+      return;
+    }
+
+    pendingArgs = leading ? null : args;
+    timerId = addTimer('throttle', interval, timerName, onIntervalEnd, options);
+    if (leading) {
+      fn(...args);
+    }
+  }, () => timerId, () => pendingArgs !== null, () => pendingArgs = null);
+}
+
+/**
+ * Creates a function that calls a given function at most a given number of times per interval. The interval starts at the first
+ * call, and the count is reset when it ends.
+ * The interval is handled by a timer, which follows the time scale and can be paused like other timers.
+ * @param limit The maximum number of calls per interval.
+ * @param ms The duration of the interval, as milliseconds or as a duration string.
+ * @param callback The function to call.
+ * @param options Options for creating the timer.
+ * @returns Returns the rate-limited function.
+ * @example <caption>Send at most 5 requests per second, delaying the others</caption>
+ * const send = facile.rateLimit(5, '1s', (message: string) => api.send(message), { queue: true });
+ */
+export function rateLimit<A extends unknown[]>(limit: number, ms: Duration, callback: (...args: A) => void, options?: RateLimitOptions): LimitedFunction<A>;
+
+/**
+ * Creates a function that calls a given function at most a given number of times per interval. The interval starts at the first
+ * call, and the count is reset when it ends.
+ * The interval is handled by a named timer, which follows the time scale and can be paused, stopped or flushed by name like other
+ * timers. Stopping it resets the count and drops the delayed calls.
+ * @param limit The maximum number of calls per interval.
+ * @param ms The duration of the interval, as milliseconds or as a duration string.
+ * @param name The name of the timer of the interval.
+ * @param callback The function to call.
+ * @param options Options for creating the timer.
+ * @returns Returns the rate-limited function.
+ */
+export function rateLimit<A extends unknown[]>(limit: number, ms: Duration, name: string, callback: (...args: A) => void, options?: RateLimitOptions): LimitedFunction<A>;
+
+export function rateLimit<A extends unknown[]>(limit: number, ms: Duration, name: string | ((...args: A) => void), callback?: ((...args: A) => void) | RateLimitOptions, options?: RateLimitOptions): LimitedFunction<A> {
+  if (typeof name === 'function') {
+    options = callback as RateLimitOptions | undefined;
+    callback = name;
+    name = '';
+  }
+  const fn = callback as (...args: A) => void;
+  const timerName = name;
+  const interval = Math.max(parseDuration(ms), 0) || 0;
+  const maxCalls = Math.max(Math.floor(limit), 1) || 1;
+
+  let timerId = -1;
+  let count = 0;
+  let queue = new Array<A>();
+
+  const startInterval = () => {
+    count = 0;
+    timerId = addTimer('rateLimit', interval, timerName, onIntervalEnd, options);
+  };
+
+  const onIntervalEnd = () => {
+    if (queue.length === 0) {
+      return;
+    }
+    // Start a new interval for the delayed calls
+    startInterval();
+    const calls = queue.splice(0, maxCalls);
+    count = calls.length;
+    for (const args of calls) {
+      fn(...args);
+    }
+  };
+
+  return createLimitedFunction((...args: A) => {
+    if (options?.signal?.aborted) {
+      return;
+    }
+
+    if (!isRunning(timerId)) {
+      queue = [];
+      startInterval();
+    }
+    if (count < maxCalls) {
+      count++;
+      fn(...args);
+    }
+    else if (options?.queue) {
+      queue.push(args);
+    }
+  }, () => timerId, () => queue.length > 0, () => queue = []);
+}
+
+/**
+ * Stops a named timer.
+ * @param name The name of the timer to stop.
+ * @returns Returns true if the named timer has been stopped successfully, or false if it doesn't exist or was already stopped.
+ * @see {@link https://developer.mozilla.org/docs/Web/API/Window/clearInterval|MDN - Window.clearInterval()}
+ * @see {@link https://developer.mozilla.org/docs/Web/API/Window/clearTimeout|MDN - Window.clearTimeout()}
+ * @example <caption>Start a named timer, then stop it</caption>
+ * facile.doEvery(1000, 'heyTimer', () => {
+ *  console.log('Hey!');
+ * });
+ * facile.stop('heyTimer');
+ */
+export function stopTimer(name: string): boolean;
+
+/**
+ * Stops a timer.
+ * @param id The unique identifier of the timer.
+ * @returns Returns true if the timer has been stopped successfully, or false if it doesn't exist or was already stopped.
+ * @see {@link https://developer.mozilla.org/docs/Web/API/Window/clearInterval|MDN - Window.clearInterval()}
+ * @see {@link https://developer.mozilla.org/docs/Web/API/Window/clearTimeout|MDN - Window.clearTimeout()}
+ * @example <caption>Start a timer, then stop it</caption>
+ * const heyTimerId = facile.doEvery(1000, () => {
+ *  console.log('Hey!');
+ * });
+ * facile.stop(heyTimerId);
+ */
+export function stopTimer(id: number): boolean
+
+export function stopTimer(id: string|number): boolean {
+  // Try find timer in active timers list
+  const timer = findTimer(id);
+
+  // Cancel if timer doesn't exist
+  if (!timer) {
+    console.warn(`Failed to stop a timer: No timer found for id "${id}".`);
+    return false;
+  }
+
+  // Stop the timer and remove it from active timers list
+  removeTimer(timer);
+  return true;
+}
+
+/**
+ * Stops all the active timers, or only the ones matching a given filter. This is useful to clean up when switching screens.
+ * Note that stopwatches, countdowns and tweens use timers too: stopping them freezes those objects in their current state.
+ * @param filter The function that checks if a timer must be stopped. If omitted, all the timers are stopped.
+ * @returns Returns the number of stopped timers.
+ * @example <caption>Stop the timers of a screen</caption>
+ * facile.doEvery(1000, 'menu-clock', updateClock, { group: 'menu' });
+ * facile.stopAllTimers(timer => timer.group === 'menu');
+ */
+export function stopAllTimers(filter?: (timer: TimerInfo) => boolean): number {
+  const timers = filter ? activeTimers.filter(timer => filter(getTimerInfo(timer))) : [...activeTimers];
+  for (const timer of timers) {
+    removeTimer(timer);
+  }
+  return timers.length;
+}
+
+/**
+ * Calls the function of a named timer immediately, as if it had elapsed. Timeouts are removed, and intervals restart.
+ * This is useful to run the pending call of a function created with {@link debounce|debounce()}, {@link throttle|throttle()} or
+ * {@link rateLimit|rateLimit()} without waiting.
+ * @param name The name of the timer to flush.
+ * @returns Returns true if the function of the timer has been called, or false if the timer doesn't exist or is a loop or a
+ * schedule.
+ * @example <caption>Save a draft immediately before leaving the page</caption>
+ * draft.onChange(facile.debounce('2s', 'save-draft', save));
+ * window.addEventListener('beforeunload', () => facile.flushTimer('save-draft'));
+ */
+export function flushTimer(name: string): boolean;
+
+/**
+ * Calls the function of a timer immediately, as if it had elapsed. Timeouts are removed, and intervals restart.
+ * @param id The unique identifier of the timer to flush.
+ * @returns Returns true if the function of the timer has been called, or false if the timer doesn't exist or is a loop or a
+ * schedule.
+ */
+export function flushTimer(id: number): boolean;
+
+export function flushTimer(id: string|number): boolean {
+  const timer = findTimer(id);
+  if (!timer) {
+    console.warn(`Failed to flush a timer: No timer found for id "${id}".`);
+    return false;
+  }
+  if (timer.loop || timer.schedule) {
+    console.warn(`Failed to flush a timer: The timer "${id}" is a loop or a schedule, and can't be flushed.`);
+    return false;
+  }
+
+  clearNativeTimer(timer);
+  tick(timer);
+  return true;
+}
+
+/**
+ * Checks if a named timer is running.
+ * Paused timers are still considered as running, since they can be resumed. Use {@link isPaused|isPaused()} to check if they're paused.
+ * @param name The name of the timer to check.
+ * @returns Returns true if the timer exists and is running.
+ */
+export function isRunning(name: string): boolean;
+
+/**
+ * Checks if a timer is running.
+ * Paused timers are still considered as running, since they can be resumed. Use {@link isPaused|isPaused()} to check if they're paused.
+ * @param id The unique identifier of the timer to check.
+ * @returns Returns true if the named timer exists and is running.
+ */
+export function isRunning(id: number): boolean;
+
+export function isRunning(id: string|number): boolean {
+  return !!findTimer(id);
+}
+
+/**
+ * Pauses a named timer. The time left before its next call is kept, so it continues where it was when resumed.
+ * @param name The name of the timer to pause.
+ * @returns Returns true if the timer has been paused, or false if it doesn't exist or was already paused.
+ * @example
+ * facile.doAfter(10000, 'bomb', explode);
+ * facile.pauseTimer('bomb');
+ * // 10 seconds left, whenever it's resumed
+ * facile.resumeTimer('bomb');
+ */
+export function pauseTimer(name: string): boolean;
+
+/**
+ * Pauses a timer. The time left before its next call is kept, so it continues where it was when resumed.
+ * @param id The unique identifier of the timer to pause.
+ * @returns Returns true if the timer has been paused, or false if it doesn't exist or was already paused.
+ */
+export function pauseTimer(id: number): boolean;
+
+export function pauseTimer(id: string|number): boolean {
+  const timer = findTimer(id);
+  if (!timer) {
+    console.warn(`Failed to pause a timer: No timer found for id "${id}".`);
+    return false;
+  }
+  if (timer.paused) {
+    return false;
+  }
+
+  timer.paused = true;
+  updateTimer(timer);
+  return true;
+}
+
+/**
+ * Resumes a named timer paused with {@link pauseTimer|pauseTimer()}.
+ * Note that the timer still won't tick if all the timers or its group are paused.
+ * @param name The name of the timer to resume.
+ * @returns Returns true if the timer has been resumed, or false if it doesn't exist or was not paused.
+ */
+export function resumeTimer(name: string): boolean;
+
+/**
+ * Resumes a timer paused with {@link pauseTimer|pauseTimer()}.
+ * Note that the timer still won't tick if all the timers or its group are paused.
+ * @param id The unique identifier of the timer to resume.
+ * @returns Returns true if the timer has been resumed, or false if it doesn't exist or was not paused.
+ */
+export function resumeTimer(id: number): boolean;
+
+export function resumeTimer(id: string|number): boolean {
+  const timer = findTimer(id);
+  if (!timer) {
+    console.warn(`Failed to resume a timer: No timer found for id "${id}".`);
+    return false;
+  }
+  if (!timer.paused) {
+    return false;
+  }
+
+  timer.paused = false;
+  updateTimer(timer);
+  return true;
+}
+
+/**
+ * Checks if a named timer is paused, by itself, by its group or because all the timers are paused.
+ * @param name The name of the timer to check.
+ * @returns Returns true if the timer exists and is paused.
+ */
+export function isPaused(name: string): boolean;
+
+/**
+ * Checks if a timer is paused, by itself, by its group or because all the timers are paused.
+ * @param id The unique identifier of the timer to check.
+ * @returns Returns true if the timer exists and is paused.
+ */
+export function isPaused(id: number): boolean;
+
+export function isPaused(id: string|number): boolean {
+  const timer = findTimer(id);
+  return !!timer && isTimerPaused(timer);
+}
+
+/**
+ * Lists the active timers, including paused ones, in creation order. This is useful to debug timers that are never stopped.
+ * @returns Returns the details of the active timers.
+ * @example <caption>Log all the active timers</caption>
+ * for (const timer of facile.listTimers()) {
+ *  console.log(timer.name ?? timer.id, timer.type, timer.nextRun);
+ * }
+ */
+export function listTimers(): TimerInfo[] {
+  return activeTimers.map(getTimerInfo);
+}
+
+/**
+ * Pauses all the timers, including the ones created while paused, until {@link resumeAllTimers|resumeAllTimers()} is called.
+ * @example <caption>Pause the game when the menu is open</caption>
+ * facile.onClick('#menu-button', () => {
+ *  facile.pauseAllTimers();
+ *  facile.show('#menu');
+ * });
+ */
+export function pauseAllTimers(): void {
+  allPaused = true;
+  updateAllTimers();
+}
+
+/**
+ * Resumes all the timers after {@link pauseAllTimers|pauseAllTimers()} has been called.
+ * Timers paused individually or by group stay paused.
+ */
+export function resumeAllTimers(): void {
+  allPaused = false;
+  updateAllTimers();
+}
+
+/**
+ * Pauses all the timers of a group, including the ones created later in that group, until
+ * {@link resumeTimerGroup|resumeTimerGroup()} is called.
+ * @param group The name of the group to pause.
+ * @example
+ * facile.doEvery(1000, moveEnemies, { group: 'enemies' });
+ * facile.doEvery(3000, spawnEnemy, { group: 'enemies' });
+ * // Freeze the enemies
+ * facile.pauseTimerGroup('enemies');
+ */
+export function pauseTimerGroup(group: string): void {
+  pausedGroups.add(group);
+  updateAllTimers();
+}
+
+/**
+ * Resumes all the timers of a group paused with {@link pauseTimerGroup|pauseTimerGroup()}.
+ * @param group The name of the group to resume.
+ */
+export function resumeTimerGroup(group: string): void {
+  pausedGroups.delete(group);
+  updateAllTimers();
+}
+
+/**
+ * Sets the speed at which time passes for all the timers. Timers already started are affected immediately.
+ * @param scale The time scale: 1 is the normal speed, 0.5 makes timers twice slower, 2 twice faster, and 0 freezes them.
+ * @returns Returns true if the time scale has been set, or false if it's not valid.
+ * @example <caption>Slow motion</caption>
+ * facile.setTimeScale(0.25);
+ * facile.doAfter(1000, () => facile.setTimeScale(1));
+ */
+export function setTimeScale(scale: number): boolean {
+  if (!Number.isFinite(scale) || scale < 0) {
+    console.warn(`Failed to set time scale: The scale must be a number greater than or equal to 0 (got ${scale}).`);
+    return false;
+  }
+
+  // Apply the elapsed time at the previous scale before changing it
+  for (const timer of [...activeTimers]) {
+    suspendTimer(timer);
+  }
+  timeScale = scale;
+  updateAllTimers();
+  return true;
+}
+
+/**
+ * Gets the speed at which time passes for all the timers.
+ * @returns Returns the time scale, as set with {@link setTimeScale|setTimeScale()}.
+ */
+export function getTimeScale(): number {
+  return timeScale;
+}
+
+/**
+ * Options for creating a stopwatch or a countdown.
+ */
+export interface StopwatchOptions {
+  /**
+   * The group of the underlying timer, so it can be paused and resumed along with other timers.
+   * @see {@link TimerOptions.group}
+   */
+  group?: string;
+  /**
+   * The time between two updates of the elapsed or remaining time state, in milliseconds or as a duration string. Defaults to 10.
+   */
+  interval?: Duration;
+}
+
+/**
+ * Represents a function called when a countdown reaches 0.
+ */
+export type CountdownCallback = () => void;
+
+/**
+ * Waits for a given delay (in milliseconds). Like {@link doAfter|doAfter()}, the delay is affected by pauses and by the time scale.
+ * @param ms The delay, in milliseconds or as a duration string (see {@link parseDuration|parseDuration()}).
+ * @param options Options for creating the underlying timer.
+ * @returns Returns a promise resolved once the delay has elapsed, or rejected with the abort reason if the signal is aborted, or with a
+ * `RangeError` if the delay is not a valid duration.
+ * @example <caption>Write a cutscene step by step</caption>
+ * facile.write('#dialog', 'Who goes there?');
+ * await facile.wait(2000);
+ * facile.write('#dialog', 'It\'s me!');
+ * @example <caption>Skip the cutscene</caption>
+ * const controller = new AbortController();
+ * facile.onClick('#skip', () => controller.abort());
+ * await facile.wait(2000, { signal: controller.signal });
+ */
+export function wait(ms: Duration, options?: TimerOptions): Promise<void> {
+  return createWaiter<void>((resolve, reject) => {
+    const delay = parseDuration(ms);
+    if (!Number.isFinite(delay)) {
+      reject(new RangeError(`Failed to wait: "${ms}" is not a valid duration.`));
+      return () => {};
+    }
+    // Resolve right away when the delay is elapsed already, including negative delays
+    if (delay < 1) {
+      resolve();
+      return () => {};
+    }
+    const id = doAfter(delay, () => resolve(), { group: options?.group });
+    return () => stopIfRunning(id);
+  }, options);
+}
+
+/**
+ * Waits until a given condition is met, checking it at regular intervals.
+ * @param predicate The function that checks the condition. It's checked immediately, then at each interval.
+ * @param options Options for waiting.
+ * @returns Returns a promise resolved once the condition is met, or rejected if the timeout elapses, if the signal is aborted, if the
+ * predicate throws an error, or with a `RangeError` if the interval or the timeout is not a valid duration.
+ * @example
+ * await facile.waitUntil(() => player.x > 500, { timeout: 10000 });
+ * facile.say('You reached the exit!');
+ */
+export function waitUntil(predicate: () => boolean, options?: WaitUntilOptions): Promise<void> {
+  return createWaiter<void>((resolve, reject) => {
+    const interval = parseDuration(options?.interval ?? DEFAULT_WAIT_INTERVAL);
+    if (!(Math.abs(interval) >= 1) || !Number.isFinite(interval)) {
+      reject(new RangeError(`Failed to wait: "${options?.interval}" is not a valid interval.`));
+      return () => {};
+    }
+
+    const check = () => {
+      try {
+        if (predicate()) {
+          resolve();
+        }
+      }
+      catch (error) {
+        reject(error);
+      }
+    };
+
+    check();
+    const id = doEvery(interval, check, { group: options?.group });
+    return () => stopIfRunning(id);
+  }, options);
+}
+
+/**
+ * Waits until the value of a state is equal to a given value, or meets a given condition.
+ * @param state The state to watch.
+ * @param expected The expected value (compared using strict equality), or a function that checks the value.
+ * @param options Options for waiting.
+ * @returns Returns a promise resolved with the value of the state once it's the expected one (immediately if it already is), or rejected
+ * if the timeout elapses or if the signal is aborted.
+ * @example
+ * const lives = facile.state(3);
+ * await facile.waitForState(lives, 0);
+ * facile.show('#game-over');
+ * @example <caption>Wait for a condition</caption>
+ * await facile.waitForState(score, (score) => score >= 1000);
+ */
+export function waitForState<T>(state: State<T>, expected: T | ((value: T | undefined) => boolean), options?: WaitOptions): Promise<T | undefined> {
+  const matches = typeof expected === 'function'
+    ? expected as (value: T | undefined) => boolean
+    : (value: T | undefined) => value === expected;
+
+  return createWaiter<T | undefined>((resolve, reject) => {
+    const check = (value: T | undefined) => {
+      try {
+        if (matches(value)) {
+          resolve(value);
+        }
+      }
+      catch (error) {
+        reject(error);
+      }
+    };
+
+    check(state.value);
+    return state.onChange(check);
+  }, options);
+}
+
+/**
+ * Rejects a given promise if it's not settled within a given delay (in milliseconds).
+ * @param promise The promise to wait for.
+ * @param ms The maximum time to wait, in milliseconds or as a duration string (see {@link parseDuration|parseDuration()}).
+ * @param options Options for creating the underlying timer.
+ * @returns Returns a promise settled like the given one, or rejected with a `TimeoutError` if the delay elapses first, or with the abort
+ * reason if the signal is aborted.
+ * @example
+ * try {
+ *  const response = await facile.withTimeout(fetch('levels.json'), 5000);
+ * }
+ * catch (error) {
+ *  facile.say('The server is not responding');
+ * }
+ */
+export function withTimeout<T>(promise: Promise<T>, ms: Duration, options?: TimerOptions): Promise<T> {
+  return createWaiter<T>((resolve, reject) => {
+    promise.then(resolve, reject);
+    return () => {};
+  }, { ...options, timeout: ms });
+}
+
+/**
+ * Represents a clock that drives the timers manually instead of in real time, so code using timers can be tested without waiting.
+ * Use {@link useVirtualClock|useVirtualClock()} to create one.
+ * Timers keep the same ids and names, and can be paused or stopped as usual. Loops are called every 1000/60 milliseconds of virtual
+ * time. Timers scheduled at given dates use the virtual date of the clock, but note that `Date.now()` is not affected.
+ */
+export class VirtualClock {
+
+  /**
+   * The current virtual time, in milliseconds.
+   */
+  private _now: number;
+
+  /**
+   * The difference between the virtual date and the virtual time, in milliseconds.
+   */
+  private _dateOffset: number;
+
+  /**
+   * The scheduled callbacks, in no particular order.
+   */
+  private _tasks = new Array<VirtualTask>();
+
+  /**
+   * The identifier of the latest scheduled callback.
+   */
+  private _latestHandle = 0;
+
+  /**
+   * The scheduler that drives the timers with this clock.
+   * @internal
+   */
+  public readonly scheduler: Scheduler;
+
+  /**
+   * @param startTime The initial virtual time, in milliseconds.
+   * @param startDate The initial virtual date. Defaults to now.
+   */
+  constructor(startTime = 0, startDate: DateInput = Date.now()) {
+    this._now = startTime;
+    this._dateOffset = toDate(startDate).getTime() - startTime;
+    this.scheduler = {
+      now: () => this._now,
+      date: () => this._now + this._dateOffset,
+      setTimeout: (callback, ms) => this._schedule(() => callback(), ms),
+      clearTimeout: handle => this._cancel(handle),
+      requestFrame: callback => this._schedule(callback, VIRTUAL_FRAME_DURATION),
+      cancelFrame: handle => this._cancel(handle)
+    };
+  }
+
+  /**
+   * Gets the current virtual time, in milliseconds.
+   */
+  public get now(): number {
+    return this._now;
+  }
+
+  /**
+   * Gets the current virtual date, used by the timers scheduled at given dates.
+   */
+  public get date(): Date {
+    return new Date(this._now + this._dateOffset);
+  }
+
+  /**
+   * Gets the number of scheduled callbacks.
+   */
+  public get pending(): number {
+    return this._tasks.length;
+  }
+
+  /**
+   * Moves the virtual time forward, calling the functions of all the timers that elapse in the meantime, in order.
+   * @param ms The time to move forward, in milliseconds.
+   * @returns Returns the number of called functions.
+   * @example
+   * const clock = facile.useVirtualClock();
+   * let ticks = 0;
+   * facile.doEvery(1000, () => ticks++);
+   * clock.advance(3500);
+   * console.log(ticks); // Outputs 3
+   */
+  public advance(ms: number): number {
+    const target = this._now + Math.max(0, ms);
+    let count = 0;
+    let task = this._getNextTask();
+    while (task && task.time <= target) {
+      this._run(task);
+      count++;
+      task = this._getNextTask();
+    }
+    this._now = target;
+    return count;
+  }
+
+  /**
+   * Moves the virtual time to the next scheduled function, and calls it.
+   * @returns Returns true if a function has been called, or false if nothing is scheduled.
+   */
+  public runNext(): boolean {
+    const task = this._getNextTask();
+    if (!task) {
+      return false;
+    }
+    this._run(task);
+    return true;
+  }
+
+  /**
+   * Calls the scheduled functions in order, moving the virtual time forward, until nothing is scheduled anymore. Since intervals and
+   * loops are always scheduled again, it stops after a given number of calls.
+   * @param limit The maximum number of functions to call.
+   * @returns Returns the number of called functions.
+   */
+  public runAll(limit = 1000): number {
+    let count = 0;
+    while (count < limit && this.runNext()) {
+      count++;
+    }
+    if (count >= limit && this._tasks.length > 0) {
+      console.warn(`Failed to run all timers: Stopped after ${limit} calls, timers may be repeated infinitely.`);
+    }
+    return count;
+  }
+
+  /**
+   * Schedules a callback.
+   * @param callback The callback to call, which receives the virtual time.
+   * @param ms The delay before the call, in milliseconds.
+   * @returns Returns the identifier of the scheduled callback.
+   */
+  private _schedule(callback: (time: number) => void, ms: number): number {
+    const handle = ++this._latestHandle;
+    this._tasks.push({ handle, time: this._now + Math.max(0, ms), callback });
+    return handle;
+  }
+
+  /**
+   * Cancels a scheduled callback.
+   * @param handle The identifier of the callback.
+   */
+  private _cancel(handle: SchedulerHandle): void {
+    const index = this._tasks.findIndex(task => task.handle === handle);
+    if (index >= 0) {
+      this._tasks.splice(index, 1);
+    }
+  }
+
+  /**
+   * Gets the next scheduled callback: the earliest one, or the first scheduled if several are due at the same time.
+   * @returns Returns the next callback, or undefined if nothing is scheduled.
+   */
+  private _getNextTask(): VirtualTask | undefined {
+    let next: VirtualTask | undefined = undefined;
+    for (const task of this._tasks) {
+      if (!next || task.time < next.time) {
+        next = task;
+      }
+    }
+    return next;
+  }
+
+  /**
+   * Moves the virtual time to a scheduled callback, and calls it.
+   * @param task The callback to call.
+   */
+  private _run(task: VirtualTask): void {
+    this._cancel(task.handle);
+    this._now = Math.max(this._now, task.time);
+    task.callback(this._now);
+  }
+
+}
+
+/**
+ * Makes all the timers driven by a new virtual clock, advanced manually, instead of in real time. Timers already started continue
+ * from where they were.
+ * @param startTime The initial virtual time, in milliseconds.
+ * @param startDate The initial virtual date, used by the timers scheduled at given dates. Defaults to now.
+ * @returns Returns the created clock.
+ * @example <caption>Test a timer without waiting</caption>
+ * const clock = facile.useVirtualClock();
+ * let exploded = false;
+ * facile.doAfter(10000, 'bomb', () => exploded = true);
+ * clock.advance(9999);
+ * console.log(exploded, facile.isRunning('bomb')); // Outputs false true
+ * clock.runNext();
+ * console.log(exploded, facile.isRunning('bomb')); // Outputs true false
+ * facile.useRealClock();
+ */
+export function useVirtualClock(startTime = 0, startDate?: DateInput): VirtualClock {
+  const clock = new VirtualClock(startTime, startDate);
+  setScheduler(clock.scheduler);
+  return clock;
+}
+
+/**
+ * Makes all the timers driven in real time again, after {@link useVirtualClock|useVirtualClock()} has been called. Timers already
+ * started continue from where they were.
+ */
+export function useRealClock(): void {
+  setScheduler(realScheduler);
+}
+
+/**
+ * Represents a stopwatch, which measures the time elapsed while it's running. The elapsed time is exposed as a state, so it can be
+ * watched or bound to the page.
+ * Like other timers, it's affected by pauses of its group or of all the timers, and by the time scale.
+ */
+export class Stopwatch {
+
+  /**
+   * The elapsed time, in milliseconds.
+   */
+  public readonly elapsed = new State<number>(0);
+
+  /**
+   * Defines if the stopwatch is running.
+   */
+  public readonly running = new State<boolean>(false);
+
+  /**
+   * The duration of each lap recorded with {@link lap}, in milliseconds.
+   */
+  public readonly laps = new State<number[]>([]);
+
+  /**
+   * The options used to create the underlying timer.
+   */
+  private _options: StopwatchOptions;
+
+  /**
+   * The unique identifier of the underlying timer, or -1 if it's not started.
+   */
+  private _timerId = -1;
+
+  /**
+   * The elapsed time when the current lap has started.
+   */
+  private _lapStart = 0;
+
+  /**
+   * @param options Options for creating this stopwatch.
+   */
+  constructor(options: StopwatchOptions = {}) {
+    this._options = options;
+  }
+
+  /**
+   * Starts the stopwatch, or resumes it if it's paused.
+   * @returns Returns true if the stopwatch has been started, or false if it was already running.
+   */
+  public start(): boolean {
+    if (this.running.value) {
+      return false;
+    }
+    if (this._timerId < 0) {
+      this._timerId = addTicker(delta => this.elapsed.value = (this.elapsed.value ?? 0) + delta, this._options);
+    }
+    else {
+      resumeTimer(this._timerId);
+    }
+    this.running.value = true;
+    return true;
+  }
+
+  /**
+   * Pauses the stopwatch, keeping the elapsed time.
+   * @returns Returns true if the stopwatch has been paused, or false if it was not running.
+   */
+  public pause(): boolean {
+    if (!this.running.value) {
+      return false;
+    }
+    pauseTimer(this._timerId);
+    this.running.value = false;
+    return true;
+  }
+
+  /**
+   * Stops the stopwatch, and resets the elapsed time and the laps.
+   */
+  public reset(): void {
+    if (this._timerId >= 0) {
+      stopTimer(this._timerId);
+      this._timerId = -1;
+    }
+    this._lapStart = 0;
+    batch(() => {
+      this.running.value = false;
+      this.elapsed.value = 0;
+      this.laps.value = [];
+    });
+  }
+
+  /**
+   * Records a lap: the time elapsed since the previous lap (or since the start) is added to {@link laps}.
+   * @returns Returns the duration of the recorded lap, in milliseconds.
+   */
+  public lap(): number {
+    flushLoop(this._timerId);
+    const elapsed = this.elapsed.value ?? 0;
+    const duration = elapsed - this._lapStart;
+    this._lapStart = elapsed;
+    this.laps.value = [...this.laps.value ?? [], duration];
+    return duration;
+  }
+
+  /**
+   * Formats the elapsed time.
+   * @param pattern The format to use. See {@link formatTime|formatTime()} for the supported tokens.
+   * @returns Returns the formatted elapsed time.
+   */
+  public format(pattern?: string): string {
+    return formatTime(this.elapsed.value ?? 0, pattern);
+  }
+
+}
+
+/**
+ * Represents a countdown, which decreases a remaining time while it's running, and invokes callbacks when it reaches 0. The remaining
+ * time is exposed as a state, so it can be watched or bound to the page.
+ * Like other timers, it's affected by pauses of its group or of all the timers, and by the time scale.
+ */
+export class Countdown {
+
+  /**
+   * The remaining time, in milliseconds.
+   */
+  public readonly remaining: State<number>;
+
+  /**
+   * Defines if the countdown is running.
+   */
+  public readonly running = new State<boolean>(false);
+
+  /**
+   * The initial remaining time, in milliseconds.
+   */
+  private _duration: number;
+
+  /**
+   * The options used to create the underlying timer.
+   */
+  private _options: StopwatchOptions;
+
+  /**
+   * The unique identifier of the underlying timer, or -1 if it's not started.
+   */
+  private _timerId = -1;
+
+  /**
+   * The callbacks to invoke when the countdown reaches 0.
+   */
+  private _callbacks = new Array<CountdownCallback>();
+
+  /**
+   * @param duration The initial remaining time, in milliseconds or as a duration string.
+   * @param options Options for creating this countdown.
+   */
+  constructor(duration: Duration, options: StopwatchOptions = {}) {
+    this._duration = Math.abs(parseDuration(duration)) || 0;
+    this._options = options;
+    this.remaining = new State(this._duration);
+  }
+
+  /**
+   * Gets the initial remaining time, in milliseconds.
+   */
+  public get duration(): number {
+    return this._duration;
+  }
+
+  /**
+   * Starts the countdown, or resumes it if it's paused.
+   * @returns Returns true if the countdown has been started, or false if it was already running or if it's already done.
+   */
+  public start(): boolean {
+    if (this.running.value || (this.remaining.value ?? 0) <= 0) {
+      return false;
+    }
+    if (this._timerId < 0) {
+      this._timerId = addTicker(delta => this._update(delta), this._options);
+    }
+    else {
+      resumeTimer(this._timerId);
+    }
+    this.running.value = true;
+    return true;
+  }
+
+  /**
+   * Pauses the countdown, keeping the remaining time.
+   * @returns Returns true if the countdown has been paused, or false if it was not running.
+   */
+  public pause(): boolean {
+    if (!this.running.value) {
+      return false;
+    }
+    pauseTimer(this._timerId);
+    // The countdown may have completed while its timer was paused
+    if (this._timerId >= 0) {
+      this.running.value = false;
+    }
+    return true;
+  }
+
+  /**
+   * Stops the countdown, and resets the remaining time.
+   * @param duration The new initial remaining time, in milliseconds or as a duration string. Defaults to the current one.
+   */
+  public reset(duration: Duration = this._duration): void {
+    this._stop();
+    this._duration = Math.abs(parseDuration(duration)) || 0;
+    batch(() => {
+      this.running.value = false;
+      this.remaining.value = this._duration;
+    });
+  }
+
+  /**
+   * Adds a new callback to be invoked when the countdown reaches 0.
+   * @param callback The function to call when the countdown is done.
+   * @returns Returns a function that removes the callback when called.
+   */
+  public onComplete(callback: CountdownCallback): () => void {
+    this._callbacks.push(callback);
+    return () => {
+      const index = this._callbacks.indexOf(callback);
+      if (index >= 0) {
+        this._callbacks.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Formats the remaining time.
+   * @param pattern The format to use. See {@link formatTime|formatTime()} for the supported tokens.
+   * @returns Returns the formatted remaining time.
+   */
+  public format(pattern?: string): string {
+    return formatTime(this.remaining.value ?? 0, pattern);
+  }
+
+  /**
+   * Decreases the remaining time, and completes the countdown if it reaches 0.
+   * @param delta The elapsed time, in milliseconds.
+   */
+  private _update(delta: number): void {
+    const remaining = Math.max(0, (this.remaining.value ?? 0) - delta);
+    if (remaining > 0) {
+      this.remaining.value = remaining;
+      return;
+    }
+
+    this._stop();
+    batch(() => {
+      this.remaining.value = 0;
+      this.running.value = false;
+    });
+    for (const callback of [...this._callbacks]) {
+      try {
+        callback();
+      }
+      catch (error) {
+        console.error(error);
+        console.warn('Failed to invoke a listener on countdown completion. See previous error for more info.');
+      }
+    }
+  }
+
+  /**
+   * Stops the underlying timer.
+   */
+  private _stop(): void {
+    if (this._timerId >= 0) {
+      const id = this._timerId;
+      this._timerId = -1;
+      stopTimer(id);
+    }
+  }
+
+}
+
+/**
+ * Creates a stopwatch, which measures the time elapsed while it's running.
+ * @param options Options for creating the stopwatch.
+ * @returns Returns the created stopwatch.
+ * @see {@link Stopwatch}
+ * @example <caption>Display the time of a speedrun</caption>
+ * const speedrun = facile.stopwatch();
+ * facile.bindText('#time', speedrun.elapsed, (ms) => facile.formatTime(ms));
+ * speedrun.start();
+ * facile.onClick('#checkpoint', () => speedrun.lap());
+ */
+export function stopwatch(options?: StopwatchOptions) {
+  return new Stopwatch(options);
+}
+
+/**
+ * Creates a countdown, which decreases a remaining time while it's running, and invokes callbacks when it reaches 0.
+ * @param duration The initial remaining time, in milliseconds or as a duration string (see {@link parseDuration|parseDuration()}).
+ * @param options Options for creating the countdown.
+ * @returns Returns the created countdown.
+ * @see {@link Countdown}
+ * @example <caption>Give 30 seconds to answer a quiz question</caption>
+ * const countdown = facile.countdown('30s');
+ * facile.bindText('#time-left', countdown.remaining, (ms) => facile.formatTime(ms, 'ss.S'));
+ * countdown.onComplete(() => facile.say('Time is up!'));
+ * countdown.start();
+ */
+export function countdown(duration: Duration, options?: StopwatchOptions) {
+  return new Countdown(duration, options);
+}
+
+/**
+ * Formats a time in milliseconds as a clock, like `01:30.250`.
+ * The supported tokens are `hh` and `h` for hours, `mm` and `m` for minutes, `ss` and `s` for seconds (two-letter tokens are padded
+ * with zeros), and `S`, `SS` and `SSS` for tenths, hundredths and thousandths of second. If hours (or minutes) are not part of the
+ * pattern, the minutes (or seconds) are not limited to 59. Text between square brackets is kept as is.
+ * @param ms The time to format, in milliseconds.
+ * @param pattern The format to use. Defaults to `mm:ss.SSS`.
+ * @returns Returns the formatted time.
+ * @example
+ * facile.formatTime(90250); // "01:30.250"
+ * facile.formatTime(90250, 'm:ss'); // "1:30"
+ * facile.formatTime(3690000, 'h[h] mm[min]'); // "1h 01min"
+ */
+export function formatTime(ms: number, pattern = 'mm:ss.SSS'): string {
+  const sign = ms < 0 ? '-' : '';
+  ms = Math.floor(Math.abs(ms));
+
+  // Ignore the text between brackets to find the tokens
+  const tokens = pattern.replace(/\[[^\]]*\]/g, '');
+  const hasHours = tokens.includes('h');
+  const hasMinutes = tokens.includes('m');
+  const hours = Math.floor(ms / 3600000);
+  const minutes = hasHours ? Math.floor(ms / 60000) % 60 : Math.floor(ms / 60000);
+  const seconds = hasMinutes || hasHours ? Math.floor(ms / 1000) % 60 : Math.floor(ms / 1000);
+  const fraction = ms % 1000;
+
+  return sign + pattern.replace(/\[([^\]]*)\]|hh?|mm?|ss?|S{1,3}/g, (token, text?: string) => {
+    if (text !== undefined) {
+      return text;
+    }
+    switch (token) {
+      case 'hh': return hours.toString().padStart(2, '0');
+      case 'h': return hours.toString();
+      case 'mm': return minutes.toString().padStart(2, '0');
+      case 'm': return minutes.toString();
+      case 'ss': return seconds.toString().padStart(2, '0');
+      case 's': return seconds.toString();
+      default: return fraction.toString().padStart(3, '0').slice(0, token.length);
+    }
+  });
+}
+
+/**
+ * Converts a duration string into a number of milliseconds.
+ * A duration string is made of numbers followed by units: `ms` (milliseconds), `s` or `sec` (seconds), `m` or `min` (minutes), `h`
+ * (hours), `d` (days) and `w` (weeks). A string containing only a number is read as milliseconds.
+ * @param duration The duration to convert. Numbers are returned as is.
+ * @returns Returns the duration in milliseconds, or NaN if the string is not a valid duration.
+ * @example
+ * facile.parseDuration('1m30s'); // 90000
+ * facile.parseDuration('1.5h'); // 5400000
+ * facile.parseDuration('2d 12h'); // 216000000
+ * facile.parseDuration('250'); // 250
+ */
+export function parseDuration(duration: Duration): number {
+  if (typeof duration === 'number') {
+    return duration;
+  }
+
+  let text = duration.trim().toLowerCase();
+  const sign = text.startsWith('-') ? -1 : 1;
+  text = text.replace(/^[-+]\s*/, '');
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return sign * parseFloat(text);
+  }
+
+  const pattern = /(\d+(?:\.\d+)?)\s*(ms|sec|min|s|m|h|d|w)\s*/y;
+  let total = 0;
+  let match: RegExpExecArray | null;
+  while (pattern.lastIndex < text.length && (match = pattern.exec(text))) {
+    total += parseFloat(match[1]) * DURATION_UNITS[match[2]];
+  }
+  if (text.length === 0 || pattern.lastIndex < text.length) {
+    console.warn(`Failed to parse duration: "${duration}" is not a valid duration.`);
+    return NaN;
+  }
+  return sign * total;
+}
+
+/**
+ * Formats a duration in a human-friendly way, like "1h 30m" or "2 days, 3 hours".
+ * @param duration The duration to format, in milliseconds or as a duration string.
+ * @param options Options for formatting the duration.
+ * @returns Returns the formatted duration, or an empty string if it's not valid.
+ * @see {@link https://developer.mozilla.org/docs/Web/JavaScript/Reference/Global_Objects/Intl/NumberFormat|MDN - Intl.NumberFormat}
+ * @example
+ * facile.formatDuration(5430000); // "1h 30m 30s"
+ * facile.formatDuration(5430000, { maxUnits: 2 }); // "1h 30m"
+ * facile.formatDuration('26h', { style: 'long' }); // "1 day, 2 hours"
+ * facile.formatDuration(90000, { style: 'long', locale: 'fr' }); // "1 minute et 30 secondes"
+ */
+export function formatDuration(duration: Duration, options: DurationFormatOptions = {}): string {
+  const ms = parseDuration(duration);
+  if (!Number.isFinite(ms)) {
+    return '';
+  }
+
+  const style = options.style ?? 'narrow';
+  const smallestIndex = FORMAT_UNITS.findIndex(([unit]) => unit === (options.smallestUnit ?? 'second'));
+  const units = FORMAT_UNITS.slice(0, smallestIndex + 1);
+
+  let remaining = Math.abs(ms);
+  const parts = new Array<[string, number]>();
+  for (const [unit, size] of units) {
+    const value = Math.floor(remaining / size);
+    remaining -= value * size;
+    // Only display the given number of non-zero units, starting from the largest one
+    if (value > 0 && (options.maxUnits === undefined || parts.length < options.maxUnits)) {
+      parts.push([unit, value]);
+    }
+  }
+  if (parts.length === 0) {
+    parts.push([units[units.length - 1][0], 0]);
+  }
+
+  const text = new Intl.ListFormat(options.locale, { type: 'unit', style }).format(
+    parts.map(([unit, value]) => new Intl.NumberFormat(options.locale, { style: 'unit', unit, unitDisplay: style }).format(value))
+  );
+  return ms < 0 ? `-${text}` : text;
+}
+
+/**
+ * Formats a date relatively to now, like "3 minutes ago" or "in 2 days". The unit is chosen according to the time between both dates.
+ * @param date The date to format.
+ * @param options Options for formatting the date.
+ * @returns Returns the formatted relative time.
+ * @see {@link https://developer.mozilla.org/docs/Web/JavaScript/Reference/Global_Objects/Intl/RelativeTimeFormat|MDN - Intl.RelativeTimeFormat}
+ * @example
+ * facile.formatRelativeTime(Date.now() - 180000); // "3 minutes ago"
+ * facile.formatRelativeTime(facile.addDays(new Date(), 2)); // "in 2 days"
+ * facile.formatRelativeTime(lastSave.date, { locale: 'es' }); // "hace 5 minutos"
+ */
+export function formatRelativeTime(date: DateInput, options: RelativeTimeFormatOptions = {}): string {
+  const difference = toDate(date).getTime() - toDate(options.now ?? Date.now()).getTime();
+  const [unit, size] = RELATIVE_UNITS.find(([, size]) => Math.abs(difference) >= size) ?? RELATIVE_UNITS[RELATIVE_UNITS.length - 1];
+  const formatter = new Intl.RelativeTimeFormat(options.locale, { style: options.style ?? 'long', numeric: options.numeric ?? 'auto' });
+  return formatter.format(Math.round(difference / size), unit);
+}
+
+/**
+ * Adds a duration to a date.
+ * @param date The initial date.
+ * @param duration The duration to add, in milliseconds or as a duration string. Use a negative duration to subtract it.
+ * @returns Returns a new date.
+ * @example
+ * const expiresAt = facile.addTime(new Date(), '1h30m');
+ */
+export function addTime(date: DateInput, duration: Duration): Date {
+  return new Date(toDate(date).getTime() + parseDuration(duration));
+}
+
+/**
+ * Adds a number of days to a date, keeping the same time of day even when the daylight saving time changes.
+ * @param date The initial date.
+ * @param days The number of days to add. Use a negative number to subtract days.
+ * @returns Returns a new date.
+ * @example
+ * const tomorrow = facile.addDays(new Date(), 1);
+ */
+export function addDays(date: DateInput, days: number): Date {
+  const result = toDate(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/**
+ * Adds a number of months to a date. If the day doesn't exist in the resulting month, the last day of that month is used.
+ * @param date The initial date.
+ * @param months The number of months to add. Use a negative number to subtract months.
+ * @returns Returns a new date.
+ * @example
+ * facile.addMonths(new Date(2024, 0, 31), 1); // February 29, 2024
+ */
+export function addMonths(date: DateInput, months: number): Date {
+  const result = toDate(date);
+  const day = result.getDate();
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(day, lastDay));
+  return result;
+}
+
+/**
+ * Gets the start of the day (midnight, local time) of a date.
+ * @param date The date.
+ * @returns Returns a new date.
+ */
+export function startOfDay(date: DateInput): Date {
+  const result = toDate(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+}
+
+/**
+ * Checks if two dates are on the same day (local time).
+ * @param a The first date.
+ * @param b The second date.
+ * @returns Returns true if both dates are on the same day.
+ * @example <caption>Give a daily bonus once per day</caption>
+ * if (!facile.isSameDay(lastBonusDate, Date.now())) {
+ *  giveBonus();
+ * }
+ */
+export function isSameDay(a: DateInput, b: DateInput): boolean {
+  return startOfDay(a).getTime() === startOfDay(b).getTime();
+}
+
+/**
+ * Checks if a date is before another.
+ * @param date The date to check.
+ * @param reference The date to compare with.
+ * @returns Returns true if the date is strictly before the reference date.
+ */
+export function isBefore(date: DateInput, reference: DateInput): boolean {
+  return toDate(date).getTime() < toDate(reference).getTime();
+}
+
+/**
+ * Checks if a date is after another.
+ * @param date The date to check.
+ * @param reference The date to compare with.
+ * @returns Returns true if the date is strictly after the reference date.
+ */
+export function isAfter(date: DateInput, reference: DateInput): boolean {
+  return toDate(date).getTime() > toDate(reference).getTime();
+}
+
+/**
+ * Counts the calendar days between two dates (local time), ignoring the time of day.
+ * @param from The start date.
+ * @param to The end date.
+ * @returns Returns the number of days, negative if the end date is before the start date.
+ * @example
+ * const daysLeft = facile.daysBetween(new Date(), '2024-12-25');
+ */
+export function daysBetween(from: DateInput, to: DateInput): number {
+  // Round, since days are not always 24 hours long because of daylight saving time
+  return Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / 86400000);
+}
+
+/**
+ * Creates a timer and starts it.
+ * @param type The kind of timer to create.
+ * @param ms The delay or interval of the timer, in milliseconds.
+ * @param name The name of the timer, or an empty string.
+ * @param callback The function to call.
+ * @param options Options for creating the timer.
+ * @param loop The progress of the loop, if the timer is a loop.
+ * @param schedule The progress of the schedule, if the timer is called at given dates.
+ * @returns Returns the unique identifier of the created timer.
+ */
+function addTimer(type: TimerType, ms: number, name: string, callback: TimerCallback, options?: TimerOptions, loop?: LoopProgress, schedule?: ScheduleProgress): number {
+  const signal = options?.signal;
+  if (signal?.aborted) {
+    return -1;
+  }
+
+  let stack: string | undefined;
+  if (name && findTimer(name)) {
+    // Remove the first lines (the error message and this function)
+    stack = (new Error().stack ?? '').split('\n').slice(2).join('\n');
+    console.warn(`Creating a timer named "${name}" while another timer has the same name: the existing one will be used when referring to it by name.\n${stack}`);
+  }
+
+  const timer: TimerEntry = {
+    name: name || undefined,
+    id: ++latestId,
+    group: options?.group,
+    type,
+    stack,
+    ms,
+    callback,
+    jsId: null,
+    remaining: ms,
+    startedAt: 0,
+    paused: false,
+    loop,
+    schedule
+  };
+
+  if (signal) {
+    const onAbort = () => removeTimer(timer);
+    signal.addEventListener('abort', onAbort, { once: true });
+    timer.dispose = () => signal.removeEventListener('abort', onAbort);
+  }
+
+  activeTimers.push(timer);
+  updateTimer(timer);
+  return timer.id;
+}
+
+/**
+ * Creates a loop that runs at a given interval, and doesn't lose the time elapsed since its last frame when paused.
+ * @param callback The function to call with the elapsed time.
+ * @param options Options for creating the loop.
+ * @returns Returns the unique identifier of the created loop.
+ */
+function addTicker(callback: LoopCallback, options: StopwatchOptions): number {
+  return addTimer('loop', 0, '', () => {}, { group: options.group }, {
+    callbacks: { update: callback },
+    interval: parseDuration(options.interval ?? DEFAULT_TICKER_INTERVAL) || DEFAULT_TICKER_INTERVAL,
+    maxDelta: Infinity,
+    pauseWhenHidden: false,
+    lastTime: null,
+    accumulator: 0,
+    fps: 0,
+    frames: 0,
+    fpsTime: 0
+  });
+}
+
+/**
+ * Creates a timer that calls its function at given dates, according to the clock of the device.
+ * @param next The function that gets the date of the next call after a given date, or null if there's no other call.
+ * @param name The name of the timer, or the function to call if the timer has no name.
+ * @param callback The function to call, or the options if the timer has no name.
+ * @param options Options for creating the timer.
+ * @returns Returns the unique identifier of the created timer, or -1 if it has no date to be called at.
+ */
+function addSchedule(next: (after: number) => number | null, name: string | TimerCallback, callback?: TimerCallback | TimerOptions, options?: TimerOptions): number {
+  if (typeof name === 'function') {
+    options = callback as TimerOptions | undefined;
+    callback = name;
+    name = '';
+  }
+
+  const target = next(scheduler.date());
+  if (target === null) {
+    console.warn('Failed to create timer: the schedule never matches any date.');
+    return -1;
+  }
+  return addTimer('schedule', 0, name, callback as TimerCallback, options, undefined, { next, target });
+}
+
+/**
+ * Creates a timer that calls its function according to a cron expression.
+ * @param expression The cron expression.
+ * @param name The name of the timer, or the function to call if the timer has no name.
+ * @param callback The function to call, or the options if the timer has no name.
+ * @param options Options for creating the timer.
+ * @returns Returns the unique identifier of the created timer, or -1 if the expression is not valid.
+ */
+function addCron(expression: string, name: string | TimerCallback, callback?: TimerCallback | TimerOptions, options?: TimerOptions): number {
+  const fields = parseCron(expression);
+  if (!fields) {
+    console.warn(`Failed to create timer: "${expression}" is not a valid cron expression.`);
+    return -1;
+  }
+  return addSchedule(after => nextCronDate(fields, after), name, callback, options);
+}
+
+/**
+ * Waits for the next date of a scheduled timer. The clock is checked at least every minute, so the timer is not affected by the limit
+ * of native timers, and follows the changes of the device clock.
+ * @param timer The timer to schedule.
+ */
+function checkSchedule(timer: TimerEntry): void {
+  const schedule = timer.schedule as ScheduleProgress;
+  const delay = (schedule.target as number) - scheduler.date();
+  timer.jsId = scheduler.setTimeout(() => {
+    timer.jsId = null;
+    const now = scheduler.date();
+    if (now < (schedule.target as number)) {
+      updateTimer(timer);
+      return;
+    }
+
+    // Schedule the next call first, so the function can stop the timer. Calls missed while the device was asleep are merged
+    schedule.target = schedule.next(now);
+    if (schedule.target === null) {
+      removeTimer(timer);
+    }
+    else {
+      updateTimer(timer);
+    }
+    timer.callback();
+  }, Math.min(Math.max(delay, 0), MAX_SCHEDULE_CHECK_INTERVAL));
+}
+
+/**
+ * Passes the time elapsed since the last frame of a stopwatch or countdown loop immediately.
+ * @param id The unique identifier of the loop.
+ */
+function flushLoop(id: number): void {
+  const timer = findTimer(id);
+  if (timer?.jsId !== null && timer?.jsId !== undefined) {
+    suspendTimer(timer);
+    updateTimer(timer);
+  }
+}
+
+/**
+ * Stops a timer and removes it from the active timers list.
+ * @param timer The timer to remove.
+ */
+function removeTimer(timer: TimerEntry): void {
+  clearNativeTimer(timer);
+  const index = activeTimers.indexOf(timer);
+  if (index >= 0) {
+    activeTimers.splice(index, 1);
+  }
+  timer.dispose?.();
+}
+
+/**
+ * Finds an active timer.
+ * @param id The name or the unique identifier of the timer.
+ * @returns Returns the found timer, or undefined if it doesn't exist.
+ */
+function findTimer(id: string|number): TimerEntry | undefined {
+  return typeof id === 'string'
+    ? activeTimers.find(i => i.name === id)
+    : activeTimers.find(i => i.id === id);
+}
+
+/**
+ * Gets the public details of a timer.
+ * @param timer The timer to describe.
+ * @returns Returns the details of the timer.
+ */
+function getTimerInfo(timer: TimerEntry): TimerInfo {
+  let nextRun: Date | null = null;
+  if (timer.loop || timer.jsId === null) {
+    nextRun = null;
+  }
+  else if (timer.schedule) {
+    nextRun = timer.schedule.target !== null ? new Date(timer.schedule.target) : null;
+  }
+  else {
+    const remaining = timer.remaining - (scheduler.now() - timer.startedAt) * timeScale;
+    nextRun = new Date(scheduler.date() + Math.max(remaining, 0) / timeScale);
+  }
+
+  return {
+    id: timer.id,
+    name: timer.name,
+    group: timer.group,
+    type: timer.type,
+    interval: timer.loop || timer.schedule ? null : timer.ms,
+    nextRun,
+    paused: isTimerPaused(timer),
+    stack: timer.stack
+  };
+}
+
+/**
+ * Checks if a timer is paused, by itself, by its group or because all the timers are paused.
+ * @param timer The timer to check.
+ * @returns Returns true if the timer is paused.
+ */
+function isTimerPaused(timer: TimerEntry): boolean {
+  return allPaused
+    || timer.paused
+    || (timer.group !== undefined && pausedGroups.has(timer.group))
+    || (!!timer.loop?.pauseWhenHidden && typeof document !== 'undefined' && document.hidden);
+}
+
+/**
+ * Starts or stops the native timeout of a timer, depending on whether it's paused and on the time scale.
+ * @param timer The timer to update.
+ */
+function updateTimer(timer: TimerEntry): void {
+  // Timers scheduled at given dates follow the clock of the device, not the time scale
+  const shouldTick = !isTimerPaused(timer) && (timeScale > 0 || !!timer.schedule);
+  if (!shouldTick) {
+    suspendTimer(timer);
+  }
+  else if (timer.jsId === null) {
+    timer.startedAt = scheduler.now();
+    if (timer.schedule) {
+      checkSchedule(timer);
+      return;
+    }
+    if (!timer.loop) {
+      timer.jsId = scheduler.setTimeout(() => tick(timer), timer.remaining / timeScale);
+      return;
+    }
+    if (timer.loop.interval !== undefined) {
+      timer.loop.lastTime = timer.startedAt;
+    }
+    requestFrame(timer);
+  }
+}
+
+/**
+ * Updates all the active timers.
+ * @see {@link updateTimer}
+ */
+function updateAllTimers(): void {
+  // Iterate over a copy, since stopwatches and countdowns may stop their timer while suspended
+  for (const timer of [...activeTimers]) {
+    updateTimer(timer);
+  }
+}
+
+/**
+ * Stops the native timeout of a timer, keeping the time left before its next call.
+ * @param timer The timer to suspend.
+ */
+function suspendTimer(timer: TimerEntry): void {
+  if (timer.jsId === null) {
+    return;
+  }
+  clearNativeTimer(timer);
+  if (timer.schedule) {
+    return;
+  }
+  if (timer.loop) {
+    // The time elapsed while suspended must not be passed to the next frame
+    const lastTime = timer.loop.lastTime;
+    timer.loop.lastTime = null;
+    if (timer.loop.interval !== undefined && lastTime !== null) {
+      timer.loop.callbacks.update?.(Math.max(0, scheduler.now() - lastTime) * timeScale);
+    }
+  }
+  else {
+    timer.remaining = Math.max(0, timer.remaining - (scheduler.now() - timer.startedAt) * timeScale);
+  }
+}
+
+/**
+ * Cancels the native timeout or animation frame request of a timer.
+ * @param timer The timer to clear.
+ */
+function clearNativeTimer(timer: TimerEntry): void {
+  if (timer.jsId === null) {
+    return;
+  }
+  if (timer.loop && timer.loop.interval === undefined) {
+    scheduler.cancelFrame(timer.jsId);
+  }
+  else {
+    scheduler.clearTimeout(timer.jsId);
+  }
+  timer.jsId = null;
+}
+
+/**
+ * Calls the function of a timer, then schedules the next call or removes the timer.
+ * @param timer The timer that has elapsed.
+ */
+function tick(timer: TimerEntry): void {
+  timer.jsId = null;
+  if (timer.type !== 'interval') {
+    removeTimer(timer);
+  }
+  else {
+    // Schedule the next call first, so the function can stop the timer
+    timer.remaining = timer.ms;
+    updateTimer(timer);
+  }
+  timer.callback();
+}
+
+/**
+ * Schedules the next frame of a loop.
+ * @param timer The loop to schedule.
+ */
+function requestFrame(timer: TimerEntry): void {
+  const interval = timer.loop?.interval;
+  timer.jsId = interval === undefined
+    ? scheduler.requestFrame(time => frame(timer, time))
+    : scheduler.setTimeout(() => frame(timer, scheduler.now()), interval);
+}
+
+/**
+ * Calls the functions of a loop for a frame, then requests the next frame.
+ * @param timer The loop to run.
+ * @param time The time of the frame, in milliseconds.
+ */
+function frame(timer: TimerEntry, time: number): void {
+  const loop = timer.loop as LoopProgress;
+  // Request the next frame first, so the functions can stop the loop
+  requestFrame(timer);
+
+  if (loop.lastTime === null) {
+    loop.lastTime = time;
+    loop.fpsTime = time;
+    loop.frames = 0;
+    return;
+  }
+
+  const delta = Math.min(time - loop.lastTime, loop.maxDelta) * timeScale;
+  loop.lastTime = time;
+
+  loop.frames++;
+  if (time - loop.fpsTime >= 1000) {
+    loop.fps = Math.round(loop.frames * 1000 / (time - loop.fpsTime));
+    loop.frames = 0;
+    loop.fpsTime = time;
+  }
+
+  if (loop.fixedStep === undefined) {
+    loop.callbacks.update?.(delta);
+    loop.callbacks.render?.(delta, 1);
+    return;
+  }
+
+  loop.accumulator += delta;
+  while (loop.accumulator >= loop.fixedStep && timer.jsId !== null) {
+    loop.callbacks.update?.(loop.fixedStep);
+    loop.accumulator -= loop.fixedStep;
+  }
+  if (timer.jsId !== null) {
+    loop.callbacks.render?.(delta, loop.accumulator / loop.fixedStep);
+  }
+}
+
+/**
+ * Creates a promise that handles the `timeout` and `signal` options of the waiting functions.
+ * @param start The function that starts waiting. It returns a function that stops waiting, called once the promise is settled.
+ * @param options Options for waiting.
+ * @returns Returns the created promise.
+ */
+function createWaiter<T>(start: (resolve: (value: T) => void, reject: (reason: unknown) => void) => () => void, options: WaitOptions = {}): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const signal = options.signal;
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const timeout = options.timeout !== undefined ? parseDuration(options.timeout) : undefined;
+    if (timeout !== undefined && !Number.isFinite(timeout)) {
+      reject(new RangeError(`Failed to wait: "${options.timeout}" is not a valid timeout.`));
+      return;
+    }
+
+    let settled = false;
+    let stop: (() => void) | null = null;
+    let timeoutId = -1;
+    const settle = (): boolean => {
+      if (settled) {
+        return false;
+      }
+      settled = true;
+      stop?.();
+      stopIfRunning(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+      return true;
+    };
+    const onAbort = () => settle() && reject(signal?.reason);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    if (timeout !== undefined) {
+      const onTimeout = () => settle() && reject(new DOMException(`The operation timed out after ${formatDuration(timeout, { smallestUnit: 'millisecond' })}.`, 'TimeoutError'));
+      // A timeout shorter than 1 millisecond can't be a timer, and elapses immediately
+      if (Math.abs(timeout) < 1) {
+        onTimeout();
+        return;
+      }
+      timeoutId = doAfter(timeout, onTimeout, { group: options.group });
+    }
+
+    stop = start(
+      value => settle() && resolve(value),
+      reason => settle() && reject(reason)
+    );
+    // The waiting may have ended synchronously, before the stop function was available
+    if (settled) {
+      stop();
+    }
+  });
+}
+
+/**
+ * Stops a timer if it's still running, without warning otherwise.
+ * @param id The unique identifier of the timer.
+ */
+function stopIfRunning(id: number): void {
+  if (isRunning(id)) {
+    stopTimer(id);
+  }
+}
+
+/**
+ * Adds the members of a function created with {@link debounce|debounce()}, {@link throttle|throttle()} or {@link rateLimit|rateLimit()}.
+ * @param call The function that handles the calls.
+ * @param getTimerId The function that gets the unique identifier of the current timer of the wrapper.
+ * @param isPending The function that checks if a call is waiting.
+ * @param clearPending The function that drops the waiting calls.
+ * @returns Returns the given function, with its members.
+ */
+function createLimitedFunction<A extends unknown[]>(call: (...args: A) => void, getTimerId: () => number, isPending: () => boolean, clearPending: () => void): LimitedFunction<A> {
+  return Object.defineProperties(call, {
+    pending: {
+      get: () => isRunning(getTimerId()) && isPending()
+    },
+    flush: {
+      value: () => {
+        if (isRunning(getTimerId()) && isPending()) {
+          flushTimer(getTimerId());
+        }
+      }
+    },
+    cancel: {
+      value: () => {
+        stopIfRunning(getTimerId());
+        clearPending();
+      }
+    }
+  }) as LimitedFunction<A>;
+}
+
+/**
+ * Changes the scheduler that drives the timers, moving the active timers to the new one.
+ * @param newScheduler The scheduler to use.
+ */
+function setScheduler(newScheduler: Scheduler): void {
+  for (const timer of [...activeTimers]) {
+    suspendTimer(timer);
+  }
+  scheduler = newScheduler;
+  updateAllTimers();
+}
+
+/**
+ * Converts a date input into a new `Date` object.
+ * @param date The date to convert.
+ * @returns Returns a new date, which can be changed safely.
+ */
+function toDate(date: DateInput): Date {
+  return new Date(date instanceof Date ? date.getTime() : date);
+}
+
+/**
+ * Parses a time of day.
+ * @param time The time of day, formatted as `HH:mm` or `HH:mm:ss`.
+ * @returns Returns the hours, minutes and seconds, or null if the time is not valid.
+ */
+function parseTimeOfDay(time: string): [number, number, number] | null {
+  const match = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(time.trim());
+  const parts = match ? [Number(match[1]), Number(match[2]), Number(match[3] ?? 0)] as [number, number, number] : null;
+  if (!parts || parts[0] > 23 || parts[1] > 59 || parts[2] > 59) {
+    console.warn(`Failed to create timer: "${time}" is not a valid time of day (expected HH:mm or HH:mm:ss).`);
+    return null;
+  }
+  return parts;
+}
+
+/**
+ * Parses a cron expression.
+ * @param expression The cron expression, with 5 fields, or 6 fields if it starts with the seconds.
+ * @returns Returns the values allowed by each field, or null if the expression is not valid.
+ */
+function parseCron(expression: string): CronFields | null {
+  const fields = expression.trim().toLowerCase().split(/\s+/);
+  if (fields.length === 5) {
+    fields.unshift('0');
+  }
+  if (fields.length !== 6) {
+    return null;
+  }
+
+  const seconds = parseCronField(fields[0], 0, 59);
+  const minutes = parseCronField(fields[1], 0, 59);
+  const hours = parseCronField(fields[2], 0, 23);
+  const days = parseCronField(fields[3], 1, 31);
+  const months = parseCronField(fields[4], 1, 12, CRON_MONTHS, 1);
+  const weekdays = parseCronField(fields[5], 0, 7, CRON_WEEKDAYS);
+  if (!seconds || !minutes || !hours || !days || !months || !weekdays) {
+    return null;
+  }
+
+  // Both 0 and 7 mean Sunday
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+  return {
+    seconds,
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    daysRestricted: !fields[3].startsWith('*'),
+    weekdaysRestricted: !fields[5].startsWith('*')
+  };
+}
+
+/**
+ * Parses a field of a cron expression.
+ * @param field The field to parse.
+ * @param min The minimum value of the field.
+ * @param max The maximum value of the field.
+ * @param names The names that can be used instead of numbers, if any.
+ * @param namesOffset The value of the first name.
+ * @returns Returns the values allowed by the field, or null if it's not valid.
+ */
+function parseCronField(field: string, min: number, max: number, names: string[] = [], namesOffset = 0): Set<number> | null {
+  const parseValue = (value: string): number => {
+    const index = names.indexOf(value);
+    return index >= 0 ? index + namesOffset : /^\d+$/.test(value) ? Number(value) : NaN;
+  };
+
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [range, stepText, ...rest] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (rest.length > 0 || !Number.isInteger(step) || step <= 0) {
+      return null;
+    }
+
+    let from = min;
+    let to = max;
+    if (range !== '*') {
+      const [start, end, ...others] = range.split('-');
+      from = parseValue(start);
+      // A single value with a step means "from that value to the maximum"
+      to = end !== undefined ? parseValue(end) : stepText !== undefined ? max : from;
+      if (others.length > 0 || !(from >= min) || !(to <= max) || from > to) {
+        return null;
+      }
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Finds the next date matching a cron expression, using local time.
+ * @param fields The parsed cron expression.
+ * @param after The date after which to search, as a timestamp in milliseconds.
+ * @returns Returns the next matching date as a timestamp in milliseconds, or null if none is found in the next 5 years.
+ */
+function nextCronDate(fields: CronFields, after: number): number | null {
+  const date = new Date(after);
+  date.setMilliseconds(0);
+  date.setSeconds(date.getSeconds() + 1);
+
+  while (date.getTime() <= after + MAX_CRON_SEARCH) {
+    if (!fields.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0);
+      continue;
+    }
+
+    // As in most cron implementations, a date matches if either the day of month or the day of week matches, when both are restricted
+    const dayMatches = fields.days.has(date.getDate());
+    const weekdayMatches = fields.weekdays.has(date.getDay());
+    if (fields.daysRestricted && fields.weekdaysRestricted ? !dayMatches && !weekdayMatches : !dayMatches || !weekdayMatches) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0);
+      continue;
+    }
+
+    if (!fields.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0);
+      continue;
+    }
+    if (!fields.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0);
+      continue;
+    }
+    if (!fields.seconds.has(date.getSeconds())) {
+      date.setSeconds(date.getSeconds() + 1);
+      continue;
+    }
+    return date.getTime();
+  }
+  return null;
 }
\ No newline at end of file
@@ -0,0 +1,702 @@
+/**
+ * Features related to animating values over time.
+ * @module Tween
+ */
+
+import { getElement } from './dom';
+import { State } from './state';
+import { doEachFrame, isPaused, isRunning, parseDuration, pauseTimer, resumeTimer, stopTimer } from './time';
+import type { Duration, TimerOptions } from './time';
+
+/**
+ * Represents a function that changes the rate of an animation.
+ * @param progress The linear progress of the animation, between 0 and 1.
+ * @returns Returns the eased progress, usually between 0 and 1 (but it may overshoot, e.g. for "back" and "elastic" easings).
+ */
+export type EasingFunction = (progress: number) => number;
+
+/**
+ * The families of easing functions, each available as "in", "out" and "in-out" variants.
+ */
+const easingFamilies = {
+  Quad: (t: number) => t ** 2,
+  Cubic: (t: number) => t ** 3,
+  Quart: (t: number) => t ** 4,
+  Quint: (t: number) => t ** 5,
+  Sine: (t: number) => 1 - Math.cos(t * Math.PI / 2),
+  Expo: (t: number) => t === 0 ? 0 : 2 ** (10 * t - 10),
+  Circ: (t: number) => 1 - Math.sqrt(1 - t ** 2),
+  Back: (t: number) => 2.70158 * t ** 3 - 1.70158 * t ** 2,
+  Elastic: (t: number) => t === 0 || t === 1 ? t : -(2 ** (10 * t - 10)) * Math.sin((t * 10 - 10.75) * (2 * Math.PI) / 3),
+  Bounce: (t: number) => 1 - bounceOut(1 - t)
+};
+
+/**
+ * Represents the name of a built-in easing function.
+ */
+export type EasingName = 'linear' | `ease${'In' | 'Out' | 'InOut'}${keyof typeof easingFamilies}`;
+
+/**
+ * The built-in easing functions, indexed by name.
+ * @see {@link https://easings.net|Easing Functions Cheat Sheet}
+ * @example
+ * console.log(facile.easings.easeInQuad(0.5)); // Outputs 0.25
+ */
+export const easings = createEasings();
+
+/**
+ * Options for creating a tween.
+ */
+export interface TweenOptions extends TimerOptions {
+  /**
+   * The duration of the animation, in milliseconds or as a duration string. Defaults to 500.
+   */
+  duration?: Duration;
+  /**
+   * The easing function, or the name of a built-in one. Defaults to `easeOutQuad`.
+   */
+  easing?: EasingName | EasingFunction;
+  /**
+   * The time to wait before starting the animation, in milliseconds or as a duration string.
+   */
+  delay?: Duration;
+  /**
+   * The number of times the animation is played again once done. Use `Infinity` to repeat it forever.
+   */
+  repeat?: number;
+  /**
+   * If enabled, the animation is played backwards every other time it's repeated. Use it with `repeat: 1` to go there and back.
+   */
+  yoyo?: boolean;
+  /**
+   * If disabled, the animation doesn't start until {@link Tween.start} is called. Enabled by default.
+   */
+  autoStart?: boolean;
+}
+
+/**
+ * Options for creating a sequence or a group of tweens.
+ */
+export type TweenGroupOptions = Omit<TweenOptions, 'duration'>;
+
+/**
+ * Gets the keys of the properties of a type that are numbers.
+ */
+export type NumericKeys<T> = { [K in keyof T]: T[K] extends number ? K : never }[keyof T];
+
+/**
+ * Represents the target values of the numeric properties of an object.
+ */
+export type NumericProperties<T> = Partial<Record<NumericKeys<T>, number>>;
+
+/**
+ * The duration of a tween if not defined in options.
+ */
+const DEFAULT_DURATION = 500;
+
+/**
+ * The easing of a tween if not defined in options.
+ */
+const DEFAULT_EASING: EasingName = 'easeOutQuad';
+
+/**
+ * Represents an animation, which changes values over time. Tweens can be awaited: the promise is resolved with true once the animation
+ * is done, or with false if it has been stopped.
+ * Like other timers, tweens are affected by pauses of their group or of all the timers, and by the time scale.
+ */
+export class Tween implements PromiseLike<boolean> {
+
+  /**
+   * The duration of one play of the animation, in milliseconds, without delay and repetitions.
+   */
+  public readonly duration: number;
+
+  /**
+   * The function that applies the animated values, from the eased progress.
+   */
+  private _apply: (progress: number) => void;
+
+  /**
+   * The function that reads the initial values, called before the first change.
+   */
+  private _prepare: (() => void) | null;
+
+  /**
+   * Defines if the initial values have been read.
+   */
+  private _prepared = false;
+
+  /**
+   * The easing function.
+   */
+  private _easing: EasingFunction;
+
+  /**
+   * The time to wait before starting the animation.
+   */
+  private _delay: number;
+
+  /**
+   * The number of times the animation is played again once done.
+   */
+  private _repeat: number;
+
+  /**
+   * Defines if the animation is played backwards every other time.
+   */
+  private _yoyo: boolean;
+
+  /**
+   * The group of the underlying loop.
+   */
+  private _group: string | undefined;
+
+  /**
+   * The time elapsed since the animation has started.
+   */
+  private _elapsed = 0;
+
+  /**
+   * The time of the last applied change, used to avoid applying the same values twice.
+   */
+  private _renderedTime = NaN;
+
+  /**
+   * The unique identifier of the underlying loop, or -1 if the animation is not playing on its own.
+   */
+  private _timerId = -1;
+
+  /**
+   * The promise resolved when the animation is done or stopped.
+   */
+  private _promise!: Promise<boolean>;
+
+  /**
+   * Resolves the promise, or null if it's already resolved.
+   */
+  private _resolve: ((completed: boolean) => void) | null = null;
+
+  /**
+   * @param duration The duration of the animation, in milliseconds or as a duration string.
+   * @param apply The function that applies the animated values, from the eased progress.
+   * @param options Options for creating the tween.
+   * @param prepare The function that reads the initial values, called before the first change.
+   */
+  constructor(duration: Duration, apply: (progress: number) => void, options: TweenOptions = {}, prepare?: () => void) {
+    this.duration = Math.max(0, parseDuration(duration) || 0);
+    this._apply = apply;
+    this._prepare = prepare ?? null;
+    this._easing = typeof options.easing === 'function' ? options.easing : easings[options.easing ?? DEFAULT_EASING] ?? easings.linear;
+    this._delay = Math.max(0, parseDuration(options.delay ?? 0) || 0);
+    this._repeat = Math.max(0, options.repeat ?? 0);
+    this._yoyo = options.yoyo ?? false;
+    this._group = options.group;
+    this._resetPromise();
+
+    if (options.signal) {
+      if (options.signal.aborted) {
+        this._settle(false);
+        return;
+      }
+      options.signal.addEventListener('abort', () => this.stop(), { once: true });
+    }
+    if (options.autoStart !== false) {
+      this.start();
+    }
+  }
+
+  /**
+   * Gets the total duration of the animation, in milliseconds, including delay and repetitions.
+   */
+  public get totalDuration(): number {
+    return this._delay + (this.duration > 0 ? this.duration * (this._repeat + 1) : 0);
+  }
+
+  /**
+   * Checks if the animation is playing: started, and neither paused nor done.
+   */
+  public get playing(): boolean {
+    return this._timerId >= 0 && isRunning(this._timerId) && !isPaused(this._timerId);
+  }
+
+  /**
+   * Plays the animation from the start. If it's already playing, it's restarted.
+   * @returns Returns this tween.
+   */
+  public start(): this {
+    this._stopLoop();
+    if (!this._resolve) {
+      this._resetPromise();
+    }
+    this._elapsed = 0;
+    this._renderedTime = NaN;
+
+    this._timerId = doEachFrame(delta => this._update(delta), { group: this._group });
+    // Without frames, jump to the end so the promise is resolved anyway
+    if (this._timerId < 0) {
+      this.complete();
+    }
+    return this;
+  }
+
+  /**
+   * Pauses the animation.
+   * @returns Returns true if the animation has been paused, or false if it was not playing.
+   */
+  public pause(): boolean {
+    return this._timerId >= 0 && pauseTimer(this._timerId);
+  }
+
+  /**
+   * Resumes the animation after it has been paused.
+   * @returns Returns true if the animation has been resumed, or false if it was not paused.
+   */
+  public resume(): boolean {
+    return this._timerId >= 0 && resumeTimer(this._timerId);
+  }
+
+  /**
+   * Stops the animation, leaving the values as they are. The promise is resolved with false.
+   */
+  public stop(): void {
+    this._stopLoop();
+    this._settle(false);
+  }
+
+  /**
+   * Stops the animation, and applies its final values. The promise is resolved with true.
+   */
+  public complete(): void {
+    this._stopLoop();
+    if (Number.isFinite(this.totalDuration)) {
+      this._render(this.totalDuration);
+    }
+    else {
+      // Infinitely repeated animations end on their final values
+      if (!this._prepared) {
+        this._prepared = true;
+        this._prepare?.();
+      }
+      this._apply(this._easing(1));
+    }
+    this._settle(true);
+  }
+
+  /**
+   * Attaches callbacks for when the animation is done or stopped, so tweens can be awaited.
+   * @param onfulfilled The function to call with true if the animation is done, or false if it has been stopped.
+   * @param onrejected The function to call if the promise is rejected (which never happens).
+   * @returns Returns a promise for the completion of the callbacks.
+   */
+  public then<R1 = boolean, R2 = never>(
+    onfulfilled?: ((completed: boolean) => R1 | PromiseLike<R1>) | null,
+    onrejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null
+  ): Promise<R1 | R2> {
+    return this._promise.then(onfulfilled, onrejected);
+  }
+
+  /**
+   * Stops playing the animation on its own, so it can be played by a sequence or a group.
+   */
+  private _detach(): void {
+    this._stopLoop();
+  }
+
+  /**
+   * Moves the animation forward.
+   * @param delta The elapsed time, in milliseconds.
+   */
+  private _update(delta: number): void {
+    this._elapsed += delta;
+    if (this._elapsed >= this.totalDuration) {
+      this._stopLoop();
+    }
+    this._render(this._elapsed);
+  }
+
+  /**
+   * Applies the values of the animation at a given time.
+   * @param time The time since the start of the animation, in milliseconds.
+   */
+  private _render(time: number): void {
+    time = Math.min(Math.max(0, time), this.totalDuration);
+    if (time === this._renderedTime) {
+      return;
+    }
+
+    const local = time - this._delay;
+    if (local < 0 && !this._prepared) {
+      return;
+    }
+    if (!this._prepared) {
+      this._prepared = true;
+      this._prepare?.();
+    }
+    this._renderedTime = time;
+
+    let iteration = 0;
+    let progress = 1;
+    if (this.duration > 0) {
+      iteration = Math.min(Math.floor(Math.max(0, local) / this.duration), this._repeat);
+      progress = Math.min(1, (Math.max(0, local) - iteration * this.duration) / this.duration);
+    }
+    if (this._yoyo && iteration % 2 === 1) {
+      progress = 1 - progress;
+    }
+    this._apply(this._easing(progress));
+
+    if (time >= this.totalDuration) {
+      this._settle(true);
+    }
+  }
+
+  /**
+   * Stops the underlying loop.
+   */
+  private _stopLoop(): void {
+    if (this._timerId >= 0) {
+      const id = this._timerId;
+      this._timerId = -1;
+      if (isRunning(id)) {
+        stopTimer(id);
+      }
+    }
+  }
+
+  /**
+   * Creates a new pending promise.
+   */
+  private _resetPromise(): void {
+    this._promise = new Promise(resolve => this._resolve = resolve);
+  }
+
+  /**
+   * Resolves the promise if it's pending.
+   * @param completed Defines if the animation is done, or has been stopped.
+   */
+  private _settle(completed: boolean): void {
+    this._resolve?.(completed);
+    this._resolve = null;
+  }
+
+  /**
+   * Creates a tween that plays other tweens.
+   * @param tweens The tweens to play.
+   * @param offsets The start time of each tween, in milliseconds.
+   * @param duration The duration of the created tween, in milliseconds.
+   * @param options Options for creating the tween.
+   * @returns Returns the created tween.
+   * @internal
+   */
+  public static compose(tweens: Tween[], offsets: number[], duration: number, options: TweenGroupOptions): Tween {
+    for (const tween of tweens) {
+      tween._detach();
+    }
+
+    const composite = new Tween(duration, (progress) => {
+      const time = progress * duration;
+      // Reset the tweens not reached yet first, then apply the others in order, so the latest ones win
+      for (let i = tweens.length - 1; i >= 0; i--) {
+        if (time < offsets[i] && tweens[i]._prepared) {
+          tweens[i]._render(0);
+        }
+      }
+      for (let i = 0; i < tweens.length; i++) {
+        if (time >= offsets[i]) {
+          tweens[i]._render(time - offsets[i]);
+        }
+      }
+    }, { easing: 'linear', ...options });
+    // Settle the tweens not done yet along with the created tween, so they can still be awaited when it's stopped
+    composite.then(completed => {
+      for (const tween of tweens) {
+        tween._settle(completed);
+      }
+    });
+    return composite;
+  }
+
+}
+
+/**
+ * Animates a number, calling a given function with the animated value on each frame.
+ * @param from The initial value.
+ * @param to The final value.
+ * @param callback The function to call with the animated value.
+ * @param options Options for creating the tween.
+ * @returns Returns the created tween, which can be awaited.
+ * @example
+ * facile.tween(0, 100, (percent) => facile.write('#loading', `${Math.round(percent)}%`), { duration: '2s' });
+ */
+export function tween(from: number, to: number, callback: (value: number) => void, options?: TweenOptions): Tween;
+
+/**
+ * Animates the value of a state holding a number.
+ * @param state The state to animate.
+ * @param to The final value.
+ * @param options Options for creating the tween.
+ * @returns Returns the created tween, which can be awaited.
+ * @example <caption>Animate a score counter</caption>
+ * const displayedScore = facile.state(0);
+ * facile.bindText('#score', displayedScore, (score) => Math.round(score).toString());
+ * await facile.tween(displayedScore, 1500, { duration: 1000 });
+ */
+export function tween(state: State<number>, to: number, options?: TweenOptions): Tween;
+
+/**
+ * Animates the numeric properties of the value of a state holding an object. A new object is set as value on each frame.
+ * @param state The state to animate.
+ * @param to The final values of the properties to animate.
+ * @param options Options for creating the tween.
+ * @returns Returns the created tween, which can be awaited.
+ * @example
+ * const player = facile.state({ name: 'MagicPoney', hp: 100 });
+ * facile.tween(player, { hp: 40 }, { easing: 'easeOutBounce' });
+ */
+export function tween<T extends object>(state: State<T>, to: NumericProperties<T>, options?: TweenOptions): Tween;
+
+/**
+ * Animates the numeric properties of an object, which is changed in place.
+ * @param target The object to animate.
+ * @param to The final values of the properties to animate.
+ * @param options Options for creating the tween.
+ * @returns Returns the created tween, which can be awaited.
+ * @example
+ * const camera = { x: 0, y: 0, zoom: 1 };
+ * facile.tween(camera, { x: 200, zoom: 2 }, { duration: 1000, easing: 'easeInOutCubic' });
+ */
+export function tween<T extends object>(target: T, to: NumericProperties<T>, options?: TweenOptions): Tween;
+
+export function tween(target: number | object, to: number | object, callback?: ((value: number) => void) | TweenOptions, options?: TweenOptions): Tween {
+  if (typeof target === 'number') {
+    const set = callback as (value: number) => void;
+    return new Tween(options?.duration ?? DEFAULT_DURATION, progress => set(lerp(target, to as number, progress)), options);
+  }
+
+  options = callback as TweenOptions | undefined;
+  if (target instanceof State) {
+    const state = target as State<unknown>;
+    if (typeof to === 'number') {
+      let from = 0;
+      return new Tween(options?.duration ?? DEFAULT_DURATION, (progress) => {
+        state.value = lerp(from, to, progress);
+      }, options, () => from = toFiniteNumber(state.value));
+    }
+
+    let from: Record<string, number> = {};
+    return new Tween(options?.duration ?? DEFAULT_DURATION, (progress) => {
+      state.value = { ...state.value as object, ...interpolate(from, to as Record<string, number>, progress) };
+    }, options, () => from = readProperties(state.value as Record<string, unknown>, to as Record<string, number>));
+  }
+
+  const object = target as Record<string, unknown>;
+  let from: Record<string, number> = {};
+  return new Tween(options?.duration ?? DEFAULT_DURATION, (progress) => {
+    Object.assign(object, interpolate(from, to as Record<string, number>, progress));
+  }, options, () => from = readProperties(object, to as Record<string, number>));
+}
+
+/**
+ * Gets the first element in the page that match the given CSS selectors, and animates CSS properties of that element.
+ * Only properties with a numeric value can be animated (e.g. `opacity`, `width` or `font-size`). The initial values are read from the
+ * computed style of the element, so the final values must use the same units.
+ * @param selectors The CSS selectors to match.
+ * @param styles The final values of the CSS properties to animate. Numbers use the unit of the current value (e.g. pixels for `width`).
+ * @param options Options for creating the tween.
+ * @returns Returns the created tween, which can be awaited, or null if the element doesn't exist.
+ * @see {@link https://developer.mozilla.org/docs/Web/API/Window/getComputedStyle|MDN - Window.getComputedStyle()}
+ * @example
+ * await facile.tweenStyle('#popup', { opacity: 0, top: '-50px' }, { duration: 300 });
+ * facile.hide('#popup');
+ */
+export function tweenStyle(selectors: string, styles: Record<string, number | string>, options?: TweenOptions): Tween | null;
+
+/**
+ * Animates CSS properties of a given element.
+ * Only properties with a numeric value can be animated (e.g. `opacity`, `width` or `font-size`). The initial values are read from the
+ * computed style of the element, so the final values must use the same units.
+ * @param element The element to animate.
+ * @param styles The final values of the CSS properties to animate. Numbers use the unit of the current value (e.g. pixels for `width`).
+ * @param options Options for creating the tween.
+ * @returns Returns the created tween, which can be awaited.
+ * @see {@link https://developer.mozilla.org/docs/Web/API/Window/getComputedStyle|MDN - Window.getComputedStyle()}
+ */
+export function tweenStyle(element: HTMLElement, styles: Record<string, number | string>, options?: TweenOptions): Tween;
+
+export function tweenStyle(selectors: string | HTMLElement, styles: Record<string, number | string>, options?: TweenOptions): Tween | null {
+  const element = selectors instanceof HTMLElement ? selectors : getElement<HTMLElement>(selectors);
+  if (!element) {
+    return null;
+  }
+
+  // Use the CSS names of the properties, so both "fontSize" and "font-size" are supported
+  const properties = Object.entries(styles).map(([name, value]) => ({
+    name: name.includes('-') ? name : name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`),
+    to: parseCssValue(value),
+    from: { value: 0, unit: '' }
+  }));
+
+  return new Tween(options?.duration ?? DEFAULT_DURATION, (progress) => {
+    for (const property of properties) {
+      const unit = property.to.unit || property.from.unit;
+      element.style.setProperty(property.name, `${lerp(property.from.value, property.to.value, progress)}${unit}`);
+    }
+  }, options, () => {
+    const computedStyle = getComputedStyle(element);
+    for (const property of properties) {
+      property.from = parseCssValue(computedStyle.getPropertyValue(property.name));
+    }
+  });
+}
+
+/**
+ * Creates a tween that plays the given tweens one after the other. The given tweens are not played on their own anymore, and their
+ * promises are resolved along with the sequence.
+ * @param tweens The tweens to play, in order.
+ * @param options Options for creating the sequence. The easing applies to the whole sequence, and is linear by default.
+ * @returns Returns the created tween, which can be awaited.
+ * @example <caption>Move a character along a path, twice</caption>
+ * await facile.sequence([
+ *  facile.tween(hero, { x: 100 }),
+ *  facile.tween(hero, { y: 100 }),
+ *  facile.tween(hero, { x: 0, y: 0 })
+ * ], { repeat: 1 });
+ */
+export function sequence(tweens: Tween[], options: TweenGroupOptions = {}): Tween {
+  tweens = filterFinite(tweens, 'sequence');
+  const offsets = new Array<number>();
+  let duration = 0;
+  for (const tween of tweens) {
+    offsets.push(duration);
+    duration += tween.totalDuration;
+  }
+  return Tween.compose(tweens, offsets, duration, options);
+}
+
+/**
+ * Creates a tween that plays the given tweens at the same time. The given tweens are not played on their own anymore, and their
+ * promises are resolved along with the group.
+ * @param tweens The tweens to play.
+ * @param options Options for creating the group. The easing applies to the whole group, and is linear by default.
+ * @returns Returns the created tween, which can be awaited.
+ * @example
+ * await facile.parallel([
+ *  facile.tweenStyle('#title', { opacity: 1 }),
+ *  facile.tweenStyle('#menu', { opacity: 1 }, { delay: 200 })
+ * ]);
+ */
+export function parallel(tweens: Tween[], options: TweenGroupOptions = {}): Tween {
+  tweens = filterFinite(tweens, 'parallel group');
+  const duration = Math.max(0, ...tweens.map(tween => tween.totalDuration));
+  return Tween.compose(tweens, tweens.map(() => 0), duration, options);
+}
+
+/**
+ * Creates the built-in easing functions.
+ * @returns Returns the easing functions, indexed by name.
+ */
+function createEasings(): Record<EasingName, EasingFunction> {
+  const result: Partial<Record<EasingName, EasingFunction>> = { linear: t => t };
+  for (const [name, easeIn] of Object.entries(easingFamilies) as Array<[keyof typeof easingFamilies, EasingFunction]>) {
+    result[`easeIn${name}`] = easeIn;
+    result[`easeOut${name}`] = t => 1 - easeIn(1 - t);
+    result[`easeInOut${name}`] = t => t < 0.5 ? easeIn(t * 2) / 2 : 1 - easeIn(2 - t * 2) / 2;
+  }
+  return result as Record<EasingName, EasingFunction>;
+}
+
+/**
+ * The "out" variant of the bounce easing, from which the others are derived.
+ * @param t The linear progress, between 0 and 1.
+ * @returns Returns the eased progress.
+ */
+function bounceOut(t: number): number {
+  const n = 7.5625;
+  const d = 2.75;
+  if (t < 1 / d) {
+    return n * t * t;
+  }
+  if (t < 2 / d) {
+    return n * (t -= 1.5 / d) * t + 0.75;
+  }
+  if (t < 2.5 / d) {
+    return n * (t -= 2.25 / d) * t + 0.9375;
+  }
+  return n * (t -= 2.625 / d) * t + 0.984375;
+}
+
+/**
+ * Interpolates between two numbers.
+ * @param from The initial value.
+ * @param to The final value.
+ * @param progress The progress between both values.
+ * @returns Returns the interpolated value.
+ */
+function lerp(from: number, to: number, progress: number): number {
+  return from + (to - from) * progress;
+}
+
+/**
+ * Interpolates between two sets of numeric properties.
+ * @param from The initial values.
+ * @param to The final values.
+ * @param progress The progress between both values.
+ * @returns Returns the interpolated values.
+ */
+function interpolate(from: Record<string, number>, to: Record<string, number>, progress: number): Record<string, number> {
+  const values: Record<string, number> = {};
+  for (const key of Object.keys(to)) {
+    values[key] = lerp(from[key], to[key], progress);
+  }
+  return values;
+}
+
+/**
+ * Reads the current values of the properties to animate.
+ * @param object The object to read.
+ * @param to The final values of the properties to animate.
+ * @returns Returns the current values.
+ */
+function readProperties(object: Record<string, unknown> | undefined, to: Record<string, number>): Record<string, number> {
+  const values: Record<string, number> = {};
+  for (const key of Object.keys(to)) {
+    values[key] = toFiniteNumber(object?.[key]);
+  }
+  return values;
+}
+
+/**
+ * Converts a value to animate into a number.
+ * @param value The value to convert.
+ * @returns Returns the value if it's a finite number, or 0 otherwise.
+ */
+function toFiniteNumber(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Splits a CSS value into a number and a unit.
+ * @param value The value to parse.
+ * @returns Returns the number and the unit of the value (0 if it's not numeric).
+ */
+function parseCssValue(value: number | string): { value: number, unit: string } {
+  if (typeof value === 'number') {
+    return { value, unit: '' };
+  }
+  const match = value.trim().match(/^(-?[\d.]+(?:e-?\d+)?)([a-z%]*)$/i);
+  return match ? { value: parseFloat(match[1]), unit: match[2] } : { value: 0, unit: '' };
+}
+
+/**
+ * Removes the tweens repeated infinitely, which can't be played by a sequence or a group.
+ * @param tweens The tweens to filter.
+ * @param kind The kind of tween being created, for the warning message.
+ * @returns Returns the tweens that have a finite duration.
+ */
+function filterFinite(tweens: Tween[], kind: string): Tween[] {
+  const finite = tweens.filter(tween => Number.isFinite(tween.totalDuration));
+  if (finite.length < tweens.length) {
+    console.warn(`Failed to add tweens to ${kind}: Tweens repeated infinitely are ignored.`);
+  }
+  return finite;
+}
\ No newline at end of file